@@ -0,0 +1,256 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { isIP } from "node:net";
+import type { CheckStreamMessage } from "@/types/linkTypes";
+import { checkLinks } from "@/services/linkChecker";
+import { createDirectTransport } from "@/services/transports";
+import { sanitizeSettings } from "@/services/settings";
+import { IgnoreRule, sanitizeRules } from "@/services/ignoreRules";
+import { MAX_TIMEOUT_MS } from "@/services/requestOptions";
+import { sanitizeProfiles } from "@/services/credentials";
+import { createFileResultCache } from "./resultCache";
+import { PrivateTargetError, fetchPublic } from "./publicFetch";
+
+type NextFunction = (error?: unknown) => void;
+
+export interface ApiMiddlewareOptions {
+  // Sites besides the API's own that may call it from a browser
+  allowedOrigins?: string[];
+}
+
+// Shared by every check, so citing the same sources across articles costs one request each
+const resultCache = createFileResultCache(process.env.LINKSCRIBE_CACHE_FILE || ".cache/link-results.json");
+
+// Checks carry the user's ignore rules, which can run to a few hundred entries
+const MAX_BODY_BYTES = 512 * 1024;
+// Clients bring their own, shorter timeouts; this only bounds the longest allowed
+const UPSTREAM_TIMEOUT_MS = MAX_TIMEOUT_MS + 5000;
+// Only pages are relayed with their body, and only this much of each: plenty
+// for the soft 404 and anchor checks, without holding a whole file in memory
+const MAX_RELAYED_BODY_BYTES = 5 * 1024 * 1024;
+// Anything else could change data on the target; checking links never needs it
+const RELAYED_METHODS = ["GET", "HEAD"];
+
+// Requiring JSON keeps "simple" form and text/plain requests out; other
+// websites are turned away by isTrustedRequest
+const readJsonBody = async (req: IncomingMessage) => {
+  if (!/^application\/json\b/i.test(req.headers["content-type"] || "")) {
+    throw new Error("Expected a JSON request body");
+  }
+
+  let raw = "";
+
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+  }
+
+  return raw ? JSON.parse(raw) : {};
+};
+
+const isHtmlContentType = (contentType: string | null) =>
+  /^\s*(?:text\/html|application\/xhtml\+xml)\b/i.test(contentType || "");
+
+// Reads up to `maxBytes` of the body and drops the rest
+const readCappedText = async (response: Response, maxBytes: number) => {
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let bytes = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const chunk = value.subarray(0, maxBytes - bytes);
+    bytes += chunk.byteLength;
+    text += decoder.decode(chunk, { stream: true });
+
+    if (bytes >= maxBytes) {
+      await reader.cancel();
+      break;
+    }
+  }
+
+  return text + decoder.decode();
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(payload));
+};
+
+// The client going away (e.g. the user pressed Stop) should stop our work too.
+// "close" also fires after a normal response, hence the writableEnded check.
+const abortOnDisconnect = (res: ServerResponse, controller: AbortController) => {
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+};
+
+const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== "string") return false;
+
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+// Performs a single upstream request on behalf of the backend transport and
+// describes the response as JSON, so the browser sees real statuses and headers.
+const handleFetch = async (req: IncomingMessage, res: ServerResponse) => {
+  const { url, method = "GET", headers = {}, redirect = "follow", headersOnly = false } = await readJsonBody(req);
+
+  if (!isHttpUrl(url)) {
+    return sendJson(res, 400, { error: { name: "TypeError", message: "Invalid URL" } });
+  }
+  if (!RELAYED_METHODS.includes(method)) {
+    return sendJson(res, 400, { error: { name: "TypeError", message: `Method ${method} is not allowed` } });
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+  abortOnDisconnect(res, controller);
+
+  try {
+    const upstream = await fetchPublic(url, { method, headers, redirect, signal: controller.signal });
+    // Status checks don't need the body, and nothing needs it from anything but
+    // a page; don't download a whole video for them
+    const wantsBody = method !== "HEAD" && !headersOnly && isHtmlContentType(upstream.headers.get("content-type"));
+    const body = wantsBody ? await readCappedText(upstream, MAX_RELAYED_BODY_BYTES) : null;
+    if (body === null) {
+      await upstream.body?.cancel();
+    }
+
+    sendJson(res, 200, {
+      status: upstream.status,
+      statusText: upstream.statusText,
+      url: upstream.url,
+      headers: Object.fromEntries(upstream.headers.entries()),
+      body,
+    });
+  } catch (error) {
+    if (error instanceof PrivateTargetError) {
+      return sendJson(res, 403, { error: { name: error.name, message: error.message } });
+    }
+
+    const err = (error instanceof Error ? error : new Error(String(error))) as Error & { cause?: { code?: string } };
+    // Node puts the network error code (ENOTFOUND, ECONNREFUSED...) on the cause
+    sendJson(res, 502, { error: { name: err.name, message: err.message, code: err.cause?.code } });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// Regular expressions from clients can be written to hang the server (e.g.
+// "(a+)+$"), so they're only applied in the browser, which hides the results
+// they ignore once checked. Ignore rules that a regex "allow" rule makes
+// exceptions to would skip too much without it, so those stay in the browser too.
+const rulesForServer = (rules: IgnoreRule[]) => {
+  const dropsAllowRule = rules.some(rule => rule.type === "regex" && rule.action === "allow");
+  return rules.filter(rule => rule.type !== "regex" && !(dropsAllowRule && rule.action === "ignore"));
+};
+
+// Fetches the page and checks every link from the server, with no proxy involved.
+// Results are streamed as NDJSON while they come in, so a slow page still shows
+// progress and whatever was checked survives a dropped connection.
+const handleCheck = async (req: IncomingMessage, res: ServerResponse) => {
+  const { url, settings, ignoreRules, credentials, forceRecheck } = await readJsonBody(req);
+
+  if (!isHttpUrl(url)) {
+    return sendJson(res, 400, { error: { message: "Please provide a valid http(s) URL" } });
+  }
+
+  const controller = new AbortController();
+  abortOnDisconnect(res, controller);
+
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "application/x-ndjson");
+  res.setHeader("Cache-Control", "no-cache");
+  const send = (message: CheckStreamMessage) => res.write(JSON.stringify(message) + "\n");
+
+  try {
+    const report = await checkLinks(url, {
+      ...sanitizeSettings(settings),
+      ignoreRules: rulesForServer(sanitizeRules(ignoreRules)),
+      credentials: sanitizeProfiles(credentials),
+      cache: resultCache,
+      forceRecheck: forceRecheck === true,
+      transports: [{ ...createDirectTransport(), fetch: fetchPublic }],
+      signal: controller.signal,
+      onEvent: send,
+    });
+    send({ type: "report", report });
+  } catch (error) {
+    send({ type: "error", message: error instanceof Error ? error.message : "Unknown error" });
+  }
+
+  res.end();
+};
+
+// Host names other than localhost and IP addresses the API may be reached by,
+// e.g. "checker.example.com" for a deployed standalone server
+const allowedHosts = () =>
+  (process.env.LINKSCRIBE_ALLOWED_HOSTS || "").split(",").map(host => host.trim().toLowerCase()).filter(Boolean);
+
+const hostnameOf = (host: string) => {
+  try {
+    return new URL(`http://${host}`).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return null;
+  }
+};
+
+// The API fetches URLs on the caller's behalf, so it only answers the app.
+// Browsers name the calling site in Origin, which must be the API's own host or
+// an allowed origin. The Host check stops other sites from getting around that
+// by pointing a domain of their own at this machine (DNS rebinding).
+const isTrustedRequest = (req: IncomingMessage, allowedOrigins: string[]) => {
+  const { host, origin } = req.headers;
+  const hostname = host ? hostnameOf(host) : null;
+  if (!hostname) return false;
+
+  const isKnownHost = hostname === "localhost" || hostname.endsWith(".localhost") || isIP(hostname) !== 0;
+  if (!isKnownHost && !allowedHosts().includes(hostname)) return false;
+
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === host || allowedOrigins.includes(origin);
+  } catch {
+    return false;
+  }
+};
+
+// Connect-style middleware, usable from Vite's dev server and the standalone server
+export const createApiMiddleware = ({ allowedOrigins = [] }: ApiMiddlewareOptions = {}) => {
+  return async (req: IncomingMessage, res: ServerResponse, next: NextFunction) => {
+    const path = (req.url || "").split("?")[0];
+
+    if (!isTrustedRequest(req, allowedOrigins)) {
+      return sendJson(res, 403, { error: { message: "Requests from this site aren't allowed" } });
+    }
+
+    try {
+      if (path === "/api/health" && req.method === "GET") {
+        return sendJson(res, 200, { ok: true });
+      }
+      if (path === "/api/check" && req.method === "POST") {
+        return await handleCheck(req, res);
+      }
+      if (path === "/api/fetch" && req.method === "POST") {
+        return await handleFetch(req, res);
+      }
+    } catch (error) {
+      return sendJson(res, 400, { error: { message: error instanceof Error ? error.message : "Bad request" } });
+    }
+
+    next();
+  };
+};
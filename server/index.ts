@@ -0,0 +1,30 @@
+import { createServer } from "node:http";
+import { createApiMiddleware } from "./api";
+
+const port = Number(process.env.PORT) || 8787;
+const host = process.env.HOST || "127.0.0.1";
+// The app is served from Vite on port 8080 unless told otherwise
+const allowedOrigin = process.env.CORS_ORIGIN || "http://localhost:8080";
+
+const api = createApiMiddleware({ allowedOrigins: [allowedOrigin] });
+
+const server = createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", allowedOrigin);
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (req.method === "OPTIONS") {
+    res.statusCode = 204;
+    return res.end();
+  }
+
+  api(req, res, () => {
+    res.statusCode = 404;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ error: { message: "Not found" } }));
+  });
+});
+
+server.listen(port, host, () => {
+  console.log(`Link checker backend listening on http://${host}:${port}`);
+});
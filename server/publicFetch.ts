@@ -0,0 +1,76 @@
+import { BlockList, isIP } from "node:net";
+import { lookup } from "node:dns/promises";
+
+// The backend fetches whatever URL it's given, so without limits anyone who
+// can reach it could use it to probe the machine it runs on or its network
+// (routers, cloud metadata at 169.254.169.254...). Private, loopback and
+// link-local addresses are refused unless LINKSCRIBE_ALLOW_PRIVATE_HOSTS=1,
+// e.g. to check an intranet.
+
+const MAX_REDIRECTS = 10;
+
+const blocked = new BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+].forEach(([network, prefix]) => blocked.addSubnet(network as string, prefix as number, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]) => blocked.addSubnet(network as string, prefix as number, "ipv6"));
+
+export class PrivateTargetError extends Error {
+  constructor(hostname: string) {
+    super(`Refusing to fetch ${hostname}: it points at a private or local address`);
+    this.name = "PrivateTargetError";
+  }
+}
+
+const allowsPrivateHosts = () => process.env.LINKSCRIBE_ALLOW_PRIVATE_HOSTS === "1";
+
+// BlockList also matches IPv4 addresses written as IPv6 (::ffff:127.0.0.1)
+// against the IPv4 subnets
+const isBlockedAddress = (address: string) => blocked.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+
+// Throws unless every address the URL's host resolves to is public
+export const assertPublicTarget = async (url: string) => {
+  if (allowsPrivateHosts()) return;
+
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true })).map(entry => entry.address);
+
+  if (addresses.some(isBlockedAddress)) {
+    throw new PrivateTargetError(hostname);
+  }
+};
+
+// fetch() that checks the target first, and checks again at every redirect
+// instead of letting fetch follow them blindly
+export const fetchPublic = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const follow = (init.redirect ?? "follow") === "follow";
+  let currentUrl = url;
+
+  for (let hops = 0; ; hops++) {
+    await assertPublicTarget(currentUrl);
+    const response = await fetch(currentUrl, { ...init, redirect: "manual" });
+    const location = response.headers.get("location");
+
+    if (!follow || !location || response.status < 300 || response.status >= 400 || hops >= MAX_REDIRECTS) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+};
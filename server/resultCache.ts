@@ -0,0 +1,56 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { CachedResult, ResultCache } from "@/services/resultCache";
+
+const MAX_ENTRIES = 20000;
+const WRITE_DELAY_MS = 2000;
+
+// Keeps answers in a JSON file so they survive restarts. Entries live in
+// memory and are written back shortly after they change; a missing or
+// unreadable file just means an empty cache.
+export const createFileResultCache = (path: string): ResultCache => {
+  let entries: Promise<Map<string, CachedResult>> | null = null;
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const load = () => {
+    if (!entries) {
+      entries = readFile(path, "utf8")
+        .then(text => new Map(Object.entries(JSON.parse(text) as Record<string, CachedResult>)))
+        .catch(() => new Map<string, CachedResult>());
+    }
+    return entries;
+  };
+
+  const save = async (map: Map<string, CachedResult>) => {
+    try {
+      await mkdir(dirname(path), { recursive: true });
+      // Write aside and swap, so a crash mid-write can't leave half a file
+      await writeFile(`${path}.tmp`, JSON.stringify(Object.fromEntries(map)));
+      await rename(`${path}.tmp`, path);
+    } catch (error) {
+      console.error("Couldn't save the result cache:", error);
+    }
+  };
+
+  const scheduleSave = (map: Map<string, CachedResult>) => {
+    if (writeTimer) return;
+    writeTimer = setTimeout(() => {
+      writeTimer = null;
+      save(map);
+    }, WRITE_DELAY_MS);
+  };
+
+  return {
+    get: async key => (await load()).get(key) ?? null,
+    set: async (key, entry) => {
+      const map = await load();
+      // Re-inserting keeps the map in age order, so the oldest go first
+      map.delete(key);
+      map.set(key, entry);
+      while (map.size > MAX_ENTRIES) {
+        map.delete(map.keys().next().value);
+      }
+      scheduleSave(map);
+    },
+  };
+};
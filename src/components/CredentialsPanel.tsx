@@ -0,0 +1,162 @@
+import React, { useState } from "react";
+import {
+  CREDENTIAL_TYPES,
+  CredentialProfile,
+  CredentialType,
+  createProfile,
+  validateProfile,
+} from "@/services/credentials";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+
+interface CredentialsPanelProps {
+  profiles: CredentialProfile[];
+  onChange: (profiles: CredentialProfile[]) => void;
+  disabled?: boolean;
+}
+
+const CredentialsPanel: React.FC<CredentialsPanelProps> = ({ profiles, onChange, disabled }) => {
+  const [domain, setDomain] = useState("");
+  const [type, setType] = useState<CredentialType>("cookie");
+  const [secret, setSecret] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Not a <form>, for the same reason as the ignore rules panel
+  const addProfile = () => {
+    const profile = type === "basic" ? { domain, type, username, password } : { domain, type, secret };
+    const problem = validateProfile(profile);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    onChange([...profiles, createProfile(profile)]);
+    setDomain("");
+    setSecret("");
+    setUsername("");
+    setPassword("");
+    setError(null);
+  };
+
+  const addOnEnter = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      addProfile();
+    }
+  };
+
+  const removeProfile = (id: string) => onChange(profiles.filter(profile => profile.id !== id));
+
+  return (
+    <div className="space-y-3 rounded-md border bg-gray-50 p-4">
+      <div>
+        <p className="text-sm font-medium">Logins</p>
+        <p className="text-xs text-gray-500">
+          For previews and subscriber-only pages. Saved in this browser and only sent to the matching domain,
+          by the checker backend: never through public proxies, and browsers won't send them directly.
+        </p>
+      </div>
+
+      {profiles.length > 0 && (
+        <ul className="divide-y rounded-md border bg-white text-sm">
+          {profiles.map(profile => (
+            <li key={profile.id} className="flex items-center gap-2 px-3 py-2">
+              <code className="flex-grow break-all text-xs">{profile.domain}</code>
+              <Badge variant="outline" className="text-gray-700">{CREDENTIAL_TYPES[profile.type].label}</Badge>
+              {profile.type === "basic" && <span className="text-xs text-gray-500">{profile.username}</span>}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => removeProfile(profile.id)}
+                disabled={disabled}
+                aria-label={`Remove login for ${profile.domain}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-[1fr_11rem_1fr_auto] items-end">
+        <div className="space-y-1">
+          <Label htmlFor="credential-domain">Domain</Label>
+          <Input
+            id="credential-domain"
+            value={domain}
+            placeholder="cms.example.com"
+            disabled={disabled}
+            onChange={(e) => setDomain(e.target.value)}
+            onKeyDown={addOnEnter}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Send</Label>
+          <Select value={type} onValueChange={value => setType(value as CredentialType)} disabled={disabled}>
+            <SelectTrigger className="bg-white" aria-label="Login type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CREDENTIAL_TYPES) as CredentialType[]).map(credentialType => (
+                <SelectItem key={credentialType} value={credentialType}>{CREDENTIAL_TYPES[credentialType].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {type === "basic" ? (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="credential-username">Username</Label>
+              <Input
+                id="credential-username"
+                value={username}
+                autoComplete="off"
+                disabled={disabled}
+                onChange={(e) => setUsername(e.target.value)}
+                onKeyDown={addOnEnter}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="credential-password">Password</Label>
+              <Input
+                id="credential-password"
+                type="password"
+                value={password}
+                autoComplete="new-password"
+                disabled={disabled}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={addOnEnter}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <Label htmlFor="credential-secret">{CREDENTIAL_TYPES[type].label}</Label>
+            <Input
+              id="credential-secret"
+              type="password"
+              value={secret}
+              placeholder={CREDENTIAL_TYPES[type].placeholder}
+              autoComplete="off"
+              disabled={disabled}
+              onChange={(e) => setSecret(e.target.value)}
+              onKeyDown={addOnEnter}
+            />
+          </div>
+        )}
+        <Button type="button" variant="secondary" onClick={addProfile} disabled={disabled}>Add</Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default CredentialsPanel;
@@ -0,0 +1,191 @@
+import React, { useRef, useState } from "react";
+import {
+  IGNORE_RULE_TYPES,
+  IgnoreRule,
+  IgnoreRuleType,
+  createRule,
+  mergeRules,
+  parseRuleFile,
+  serializeRules,
+  validatePattern,
+} from "@/services/ignoreRules";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface IgnoreRulesPanelProps {
+  rules: IgnoreRule[];
+  onChange: (rules: IgnoreRule[]) => void;
+  disabled?: boolean;
+}
+
+// "999, 403" -> [999, 403]
+const parseStatusCodes = (value: string) =>
+  value.split(/[\s,]+/).map(Number).filter(code => Number.isInteger(code) && code >= 100 && code <= 999);
+
+const IgnoreRulesPanel: React.FC<IgnoreRulesPanelProps> = ({ rules, onChange, disabled }) => {
+  const [type, setType] = useState<IgnoreRuleType>("domain");
+  const [action, setAction] = useState<IgnoreRule["action"]>("ignore");
+  const [pattern, setPattern] = useState("");
+  const [statusCodes, setStatusCodes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Not a <form>: the panel sits inside the URL form, and forms can't nest
+  const addRule = () => {
+    const problem = validatePattern(type, pattern);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    const codes = action === "ignore" ? parseStatusCodes(statusCodes) : [];
+    onChange([...rules, createRule({ type, pattern, action, ...(codes.length > 0 && { statusCodes: codes }) })]);
+    setPattern("");
+    setStatusCodes("");
+    setError(null);
+  };
+
+  const addOnEnter = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      addRule();
+    }
+  };
+
+  const removeRule = (id: string) => onChange(rules.filter(rule => rule.id !== id));
+
+  const exportRules = () => {
+    const blob = new Blob([serializeRules(rules)], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = "linkscribe-ignore-rules.json";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  const importRules = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parseRuleFile(await file.text());
+      const merged = mergeRules(rules, imported);
+      onChange(merged);
+      toast.success(`Imported ${merged.length - rules.length} rule${merged.length - rules.length === 1 ? "" : "s"}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Couldn't import the rule file");
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border bg-gray-50 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium">Ignore rules</p>
+          <p className="text-xs text-gray-500">Links matching a rule are skipped. Allow rules override ignore rules.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={disabled}>
+            <Upload className="h-4 w-4 mr-1" />
+            Import
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={exportRules} disabled={rules.length === 0}>
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importRules} />
+        </div>
+      </div>
+
+      {rules.length > 0 && (
+        <ul className="divide-y rounded-md border bg-white text-sm">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-center gap-2 px-3 py-2">
+              <Badge variant="outline" className={rule.action === "allow" ? "text-green-700" : "text-gray-700"}>
+                {rule.action === "allow" ? "Allow" : "Ignore"}
+              </Badge>
+              <span className="text-xs text-gray-500 whitespace-nowrap">{IGNORE_RULE_TYPES[rule.type].label}</span>
+              <code className="flex-grow break-all text-xs">{rule.pattern}</code>
+              {rule.statusCodes?.length > 0 && (
+                <span className="text-xs text-gray-500 whitespace-nowrap">when {rule.statusCodes.join(", ")}</span>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => removeRule(rule.id)}
+                disabled={disabled}
+                aria-label={`Remove rule ${rule.pattern}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-[8rem_10rem_1fr_8rem_auto] items-end">
+        <div className="space-y-1">
+          <Label>Action</Label>
+          <Select value={action} onValueChange={value => setAction(value as IgnoreRule["action"])} disabled={disabled}>
+            <SelectTrigger className="bg-white" aria-label="Rule action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ignore">Ignore</SelectItem>
+              <SelectItem value="allow">Allow</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Match</Label>
+          <Select value={type} onValueChange={value => setType(value as IgnoreRuleType)} disabled={disabled}>
+            <SelectTrigger className="bg-white" aria-label="Rule type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(IGNORE_RULE_TYPES) as IgnoreRuleType[]).map(ruleType => (
+                <SelectItem key={ruleType} value={ruleType}>{IGNORE_RULE_TYPES[ruleType].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="rule-pattern">Pattern</Label>
+          <Input
+            id="rule-pattern"
+            value={pattern}
+            placeholder={IGNORE_RULE_TYPES[type].placeholder}
+            disabled={disabled}
+            onChange={(e) => setPattern(e.target.value)}
+            onKeyDown={addOnEnter}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="rule-status-codes">Only for statuses</Label>
+          <Input
+            id="rule-status-codes"
+            value={statusCodes}
+            placeholder="Any"
+            disabled={disabled || action === "allow"}
+            onChange={(e) => setStatusCodes(e.target.value)}
+            onKeyDown={addOnEnter}
+          />
+        </div>
+        <Button type="button" variant="secondary" onClick={addRule} disabled={disabled}>Add</Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default IgnoreRulesPanel;
@@ -1,21 +1,125 @@
-
-import React, { useState } from "react";
-import { LinkCheckResult } from "@/types/linkTypes";
+import React, { useCallback, useState } from "react";
+import { IssueCategory, IssueSeverity, LinkCheckResult, ResourceKind } from "@/types/linkTypes";
+import { ISSUE_CATEGORIES, SEVERITY_LABELS } from "@/services/linkIssues";
+import { PAGE_REGIONS, RESOURCE_KINDS } from "@/services/linkExtractor";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ArrowDown, ArrowUp, Check, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  EyeOff,
+  History,
+  Lock,
+  ShieldQuestion,
+  X,
+} from "lucide-react";
 
 interface ResultsTableProps {
   results: LinkCheckResult[];
+  // Links still being checked, shown as placeholder rows after the results
+  pendingUrls?: string[];
+  // Adds an ignore rule for the row's URL
+  onIgnore?: (result: LinkCheckResult) => void;
 }
 
-type SortField = "url" | "status";
+type SortField = "url" | "status" | "latency";
 type SortOrder = "asc" | "desc";
+type SeverityFilter = "all" | "ok" | IssueSeverity;
+type CategoryFilter = "all" | IssueCategory;
+type KindFilter = "all" | ResourceKind;
+
+const SEVERITY_RANK: Record<"ok" | IssueSeverity, number> = {
+  ok: 0,
+  unverified: 1,
+  warning: 2,
+  broken: 3,
+};
+
+const severityOf = (result: LinkCheckResult) => result.issue?.severity || "ok";
+
+// Links answered without a request (same-page anchors) sort as fastest
+const latencyOf = (result: LinkCheckResult) => result.timing?.totalMs ?? 0;
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const formatAge = (since: number) => {
+  const minutes = Math.floor((Date.now() - since) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours} h ago` : `${Math.floor(hours / 24)} d ago`;
+};
+
+// A URL can appear as more than one kind, e.g. an image that is also linked to
+const kindsOf = (result: LinkCheckResult): ResourceKind[] =>
+  [...new Set((result.occurrences || []).map(occurrence => occurrence.kind))];
+
+const PAGE_SIZES = [25, 50, 100, 250, 1000];
+
+// Pages longer than this only render the rows near the visible area
+const VIRTUALIZE_AFTER = 100;
+const VIEWPORT_HEIGHT = 640;
+const ROW_HEIGHT = 72;
+const REDIRECT_HOP_HEIGHT = 20;
+const OCCURRENCE_HEIGHT = 64;
 
-const ResultsTable: React.FC<ResultsTableProps> = ({ results }) => {
+// Page numbers to show: the first, the last and the neighbours of the current
+// page, with null where an ellipsis goes
+const visiblePages = (current: number, count: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let page = 1; page <= count; page++) {
+    if (page === 1 || page === count || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+const ResultsTable: React.FC<ResultsTableProps> = ({ results, pendingUrls = [], onIgnore }) => {
   const [sortField, setSortField] = useState<SortField>("status");
   const [sortOrder, setSortOrder] = useState<SortOrder>("desc");
+  const [expandedUrls, setExpandedUrls] = useState<Set<string>>(new Set());
+  const [expandedOccurrenceUrls, setExpandedOccurrenceUrls] = useState<Set<string>>(new Set());
+  const [severityFilter, setSeverityFilter] = useState<SeverityFilter>("all");
+  const [categoryFilter, setCategoryFilter] = useState<CategoryFilter>("all");
+  const [kindFilter, setKindFilter] = useState<KindFilter>("all");
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[1]);
+  const [page, setPage] = useState(1);
+
+  const toggleExpanded = (
+    url: string,
+    setExpanded: React.Dispatch<React.SetStateAction<Set<string>>> = setExpandedUrls
+  ) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(url)) {
+        next.delete(url);
+      } else {
+        next.add(url);
+      }
+      return next;
+    });
+  };
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -26,22 +130,65 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ results }) => {
     }
   };
 
-  const sortedResults = [...results].sort((a, b) => {
+  const presentCategories = [...new Set(results.map(result => result.issue?.category).filter(Boolean))];
+  const presentKinds = [...new Set(results.flatMap(kindsOf))];
+
+  const filteredResults = results.filter(result =>
+    (severityFilter === "all" || severityOf(result) === severityFilter) &&
+    (categoryFilter === "all" || result.issue?.category === categoryFilter) &&
+    (kindFilter === "all" || kindsOf(result).includes(kindFilter))
+  );
+
+  const sortedResults = [...filteredResults].sort((a, b) => {
     if (sortField === "url") {
       return sortOrder === "asc" 
         ? a.url.localeCompare(b.url)
         : b.url.localeCompare(a.url);
+    } else if (sortField === "latency") {
+      const difference = latencyOf(a) - latencyOf(b);
+      return sortOrder === "asc" ? difference : -difference;
     } else {
-      // Sort by status (working links first if asc, broken links first if desc)
-      if (a.isWorking === b.isWorking) return 0;
-      if (sortOrder === "asc") {
-        return a.isWorking ? -1 : 1;
-      } else {
-        return a.isWorking ? 1 : -1;
-      }
+      // Sort by severity (working links first if asc, broken links first if desc),
+      // keeping links with the same kind of problem together
+      const difference = SEVERITY_RANK[severityOf(a)] - SEVERITY_RANK[severityOf(b)]
+        || (a.issue?.category || "").localeCompare(b.issue?.category || "");
+      return sortOrder === "asc" ? difference : -difference;
     }
   });
 
+  const pageCount = Math.max(1, Math.ceil(sortedResults.length / pageSize));
+  const currentPage = Math.min(page, pageCount);
+  const pageResults = sortedResults.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+  // Pending links fill up the last page; the rest are summarised in one row
+  const pendingRows = currentPage === pageCount ? pendingUrls.slice(0, pageSize - pageResults.length) : [];
+  const hiddenPendingCount = pendingUrls.length - pendingRows.length;
+
+  const estimateRowHeight = useCallback((index: number) => {
+    const result = pageResults[index];
+    if (!result) return ROW_HEIGHT;
+
+    let height = ROW_HEIGHT;
+    if (expandedOccurrenceUrls.has(result.url)) {
+      height += (result.occurrences?.length || 0) * OCCURRENCE_HEIGHT + 16;
+    }
+    if (expandedUrls.has(result.url)) {
+      height += ((result.redirects?.length || 0) + 1) * REDIRECT_HOP_HEIGHT + 16;
+    }
+    return height;
+  }, [pageResults, expandedUrls, expandedOccurrenceUrls]);
+
+  const { start, end, paddingTop, paddingBottom, onScroll } = useVirtualRows({
+    count: pageResults.length,
+    estimateRowHeight,
+    viewportHeight: VIEWPORT_HEIGHT,
+    enabled: pageResults.length > VIRTUALIZE_AFTER,
+  });
+
+  const goToPage = (event: React.MouseEvent, target: number) => {
+    event.preventDefault();
+    setPage(Math.min(pageCount, Math.max(1, target)));
+  };
+
   const getSortIcon = (field: SortField) => {
     if (sortField !== field) return null;
     return sortOrder === "asc" ? (
@@ -52,75 +199,461 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ results }) => {
   };
 
   const renderStatusBadge = (result: LinkCheckResult) => {
-    if (result.isWorking) {
+    switch (severityOf(result)) {
+      case "ok":
+        return (
+          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200 flex items-center gap-1">
+            <Check className="h-3 w-3" />
+            OK
+          </Badge>
+        );
+      case "warning":
+        return (
+          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200 flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            {SEVERITY_LABELS.warning}
+          </Badge>
+        );
+      case "unverified":
+        return (
+          <Badge variant="outline" className="bg-slate-50 text-slate-600 border-slate-200 flex items-center gap-1">
+            <ShieldQuestion className="h-3 w-3" />
+            {SEVERITY_LABELS.unverified}
+          </Badge>
+        );
+      default:
+        return (
+          <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200 flex items-center gap-1">
+            <X className="h-3 w-3" />
+            {SEVERITY_LABELS.broken}
+          </Badge>
+        );
+    }
+  };
+
+  const renderAttempts = (result: LinkCheckResult) => {
+    if (!result.attempts || result.attempts < 2) return null;
+    return <span className="block text-xs text-gray-500">After {result.attempts} attempts</span>;
+  };
+
+  // HEAD is the norm; anything else means the server turned it down
+  const renderProbe = (result: LinkCheckResult) => {
+    if (!result.probe || result.probe === "head") return null;
+
+    return (
+      <span className="block text-xs text-gray-500">
+        {result.probe === "range"
+          ? "HEAD not supported, checked with a ranged GET"
+          : "HEAD and ranged GETs not supported, checked with a full GET"}
+      </span>
+    );
+  };
+
+  const renderAuthenticated = (result: LinkCheckResult) => {
+    if (!result.authenticated) return null;
+    return (
+      <span className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+        <Lock className="h-3 w-3" />
+        Checked signed in
+      </span>
+    );
+  };
+
+  const renderCached = (result: LinkCheckResult) => {
+    if (!result.cachedAt) return null;
+    return (
+      <span
+        className="mt-1 flex items-center gap-1 text-xs text-gray-500"
+        title={`Checked ${new Date(result.cachedAt).toLocaleString()}`}
+      >
+        <History className="h-3 w-3" />
+        Cached, {formatAge(result.cachedAt)}
+      </span>
+    );
+  };
+
+  const renderRequestedUrl = (result: LinkCheckResult) => {
+    if (!result.requestedUrl || result.requestedUrl === result.url) return null;
+    return <span className="block text-xs text-gray-500 break-all">Requested as {result.requestedUrl}</span>;
+  };
+
+  const renderDetails = (result: LinkCheckResult) => {
+    if (!result.issue) {
       return (
-        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200 flex items-center gap-1">
-          <Check className="h-3 w-3" />
-          OK
-        </Badge>
+        <div>
+          <span className="text-gray-500">{result.statusCode || "200 OK"}</span>
+          {renderAttempts(result)}
+          {renderProbe(result)}
+          {renderRequestedUrl(result)}
+        </div>
       );
     }
+
+    const { category, severity, message } = result.issue;
+    const colour = severity === "broken" ? "text-red-600" : severity === "warning" ? "text-amber-700" : "text-slate-600";
+
     return (
-      <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200 flex items-center gap-1">
-        <X className="h-3 w-3" />
-        Broken
-      </Badge>
+      <div className={colour}>
+        <span className="font-medium">{ISSUE_CATEGORIES[category].label}</span>
+        <span className="block text-xs">{message}</span>
+        {renderAttempts(result)}
+        {renderProbe(result)}
+        {renderRequestedUrl(result)}
+        {result.soft404Reasons?.length > 0 && (
+          <ul className="list-disc pl-4 text-xs">
+            {result.soft404Reasons.map(reason => <li key={reason}>{reason}</li>)}
+          </ul>
+        )}
+      </div>
     );
   };
 
-  return (
-    <div className="rounded-md border overflow-hidden bg-white">
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead className="w-[60%]">
-              <Button 
-                variant="ghost" 
-                onClick={() => handleSort("url")}
-                className="font-semibold p-0 h-auto flex items-center"
-              >
-                Link URL {getSortIcon("url")}
-              </Button>
-            </TableHead>
-            <TableHead>
-              <Button 
-                variant="ghost" 
-                onClick={() => handleSort("status")}
-                className="font-semibold p-0 h-auto flex items-center"
+  const renderTiming = (result: LinkCheckResult) => {
+    if (!result.timing) return <span className="text-gray-400">—</span>;
+
+    const { ttfbMs, totalMs } = result.timing;
+    return (
+      <div className={result.slow ? "text-amber-700" : "text-gray-600"}>
+        <span className="flex items-center gap-1 whitespace-nowrap">
+          {result.slow && <Clock className="h-3 w-3" aria-label="Slow" />}
+          {formatDuration(totalMs)}
+        </span>
+        {ttfbMs !== undefined && (
+          <span className="block text-xs text-gray-500 whitespace-nowrap">First byte {formatDuration(ttfbMs)}</span>
+        )}
+      </div>
+    );
+  };
+
+  const renderRedirectToggle = (result: LinkCheckResult) => {
+    const hopCount = result.redirects?.length || 0;
+    if (hopCount === 0) return null;
+
+    const isExpanded = expandedUrls.has(result.url);
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => toggleExpanded(result.url)}
+        className="h-auto p-0 mt-1 text-xs text-amber-700 flex items-center gap-1"
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        {hopCount} redirect{hopCount > 1 ? "s" : ""}
+      </Button>
+    );
+  };
+
+  // Where on the page the link is, e.g. "Main content · Image"; plain links
+  // don't repeat their kind
+  const renderSource = (result: LinkCheckResult) => {
+    const regions = [...new Set((result.occurrences || []).map(occurrence => occurrence.region))];
+    const kinds = kindsOf(result).some(kind => kind !== "link") ? kindsOf(result) : [];
+    const parts = [
+      ...regions.map(region => PAGE_REGIONS[region].label),
+      ...kinds.map(kind => RESOURCE_KINDS[kind].label),
+    ];
+    if (parts.length === 0) return null;
+
+    return <span className="block text-xs font-normal text-gray-500">{parts.join(" · ")}</span>;
+  };
+
+  // The link text, plus a toggle listing every place the link appears
+  const renderLinkText = (result: LinkCheckResult) => {
+    const occurrences = result.occurrences || [];
+    if (occurrences.length === 0) return null;
+
+    const firstText = occurrences.find(occurrence => occurrence.text)?.text;
+    const isExpanded = expandedOccurrenceUrls.has(result.url);
+
+    return (
+      <div className="text-xs font-normal text-gray-600">
+        {firstText && <span className="block">“{firstText}”</span>}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => toggleExpanded(result.url, setExpandedOccurrenceUrls)}
+          className="h-auto p-0 text-xs text-gray-500 flex items-center gap-1"
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          {occurrences.length > 1 ? `Used ${occurrences.length} times on the page` : "Where on the page"}
+        </Button>
+      </div>
+    );
+  };
+
+  const renderOccurrences = (result: LinkCheckResult) => (
+    <TableRow className="bg-gray-50 hover:bg-gray-50">
+      <TableCell colSpan={4} className="py-2">
+        <ol className="space-y-2 text-xs text-gray-600">
+          {result.occurrences.map((occurrence, occurrenceIndex) => (
+            <li key={occurrenceIndex} className="break-words">
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="font-semibold">{occurrence.text ? `“${occurrence.text}”` : `<${occurrence.tag}>`}</span>
+                {occurrence.rel?.map(rel => (
+                  <Badge key={rel} variant="outline" className="px-1 py-0 text-[10px] font-normal">rel={rel}</Badge>
+                ))}
+                {occurrence.target && (
+                  <Badge variant="outline" className="px-1 py-0 text-[10px] font-normal">target={occurrence.target}</Badge>
+                )}
+              </div>
+              {occurrence.snippet && <p className="italic">{occurrence.snippet}</p>}
+              {occurrence.url !== result.url && (
+                <span className="block break-all">Written as {occurrence.url}</span>
+              )}
+              <span className="text-gray-500">{PAGE_REGIONS[occurrence.region].label}</span>
+              <code className="block text-gray-400 break-all">{occurrence.domPath}</code>
+            </li>
+          ))}
+        </ol>
+      </TableCell>
+    </TableRow>
+  );
+
+  const renderRedirectChain = (result: LinkCheckResult) => (
+    <TableRow className="bg-gray-50 hover:bg-gray-50">
+      <TableCell colSpan={4} className="py-2">
+        <ol className="space-y-1 text-xs text-gray-600">
+          {result.redirects.map((hop, hopIndex) => (
+            <li key={hopIndex} className="break-all">
+              <span className="font-mono font-semibold mr-2">{hop.status}</span>
+              {hop.url}
+              <span className="text-gray-400"> → </span>
+              {hop.location}
+            </li>
+          ))}
+          {result.finalUrl && (
+            <li className="break-all">
+              <span className="font-semibold mr-2">Final URL</span>
+              <a
+                href={result.finalUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline"
               >
-                Status {getSortIcon("status")}
-              </Button>
-            </TableHead>
-            <TableHead>Details</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {sortedResults.map((result, index) => (
-            <TableRow key={index}>
-              <TableCell className="font-medium overflow-hidden text-ellipsis">
-                <a 
-                  href={result.url} 
-                  target="_blank" 
-                  rel="noopener noreferrer" 
-                  className="text-blue-600 hover:underline"
+                {result.finalUrl}
+              </a>
+            </li>
+          )}
+        </ol>
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Select
+          value={severityFilter}
+          onValueChange={value => {
+            setSeverityFilter(value as SeverityFilter);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-44 bg-white" aria-label="Filter by status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="broken">{SEVERITY_LABELS.broken}</SelectItem>
+            <SelectItem value="warning">{SEVERITY_LABELS.warning}</SelectItem>
+            <SelectItem value="unverified">{SEVERITY_LABELS.unverified}</SelectItem>
+            <SelectItem value="ok">OK</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={categoryFilter}
+          onValueChange={value => {
+            setCategoryFilter(value as CategoryFilter);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-56 bg-white" aria-label="Filter by problem">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All problems</SelectItem>
+            {presentCategories.map(category => (
+              <SelectItem key={category} value={category}>{ISSUE_CATEGORIES[category].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {presentKinds.length > 1 && (
+          <Select
+            value={kindFilter}
+            onValueChange={value => {
+              setKindFilter(value as KindFilter);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-52 bg-white" aria-label="Filter by type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {presentKinds.map(kind => (
+                <SelectItem key={kind} value={kind}>{RESOURCE_KINDS[kind].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select
+          value={String(pageSize)}
+          onValueChange={value => {
+            setPageSize(Number(value));
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-36 bg-white ml-auto" aria-label="Rows per page">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZES.map(size => (
+              <SelectItem key={size} value={String(size)}>{size} per page</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div
+        className="rounded-md border overflow-auto bg-white"
+        style={{ maxHeight: pageResults.length > VIRTUALIZE_AFTER ? VIEWPORT_HEIGHT : undefined }}
+        onScroll={onScroll}
+      >
+        <Table>
+          <TableHeader className="sticky top-0 z-10 bg-white">
+            <TableRow>
+              <TableHead className="w-[60%]">
+                <Button 
+                  variant="ghost" 
+                  onClick={() => handleSort("url")}
+                  className="font-semibold p-0 h-auto flex items-center"
                 >
-                  {result.url}
-                </a>
-              </TableCell>
-              <TableCell>{renderStatusBadge(result)}</TableCell>
-              <TableCell>
-                {result.isWorking ? (
-                  <span className="text-gray-500">{result.statusCode || "200 OK"}</span>
-                ) : (
-                  <span className="text-red-600">
-                    {result.statusCode || ""} {result.error || "Connection failed"}
-                  </span>
-                )}
-              </TableCell>
+                  Link URL {getSortIcon("url")}
+                </Button>
+              </TableHead>
+              <TableHead>
+                <Button 
+                  variant="ghost" 
+                  onClick={() => handleSort("status")}
+                  className="font-semibold p-0 h-auto flex items-center"
+                >
+                  Status {getSortIcon("status")}
+                </Button>
+              </TableHead>
+              <TableHead>
+                <Button 
+                  variant="ghost" 
+                  onClick={() => handleSort("latency")}
+                  className="font-semibold p-0 h-auto flex items-center"
+                >
+                  Time {getSortIcon("latency")}
+                </Button>
+              </TableHead>
+              <TableHead>Details</TableHead>
             </TableRow>
-          ))}
-        </TableBody>
-      </Table>
+          </TableHeader>
+          <TableBody>
+            {paddingTop > 0 && <tr aria-hidden="true" style={{ height: paddingTop }} />}
+            {pageResults.slice(start, end).map((result) => (
+              <React.Fragment key={result.url}>
+                <TableRow>
+                  <TableCell className="font-medium overflow-hidden text-ellipsis">
+                    <a 
+                      href={result.url} 
+                      target="_blank" 
+                      rel="noopener noreferrer" 
+                      className="text-blue-600 hover:underline"
+                    >
+                      {result.url}
+                    </a>
+                    {renderSource(result)}
+                    {renderLinkText(result)}
+                  </TableCell>
+                  <TableCell>
+                    {renderStatusBadge(result)}
+                    {renderAuthenticated(result)}
+                    {renderCached(result)}
+                  </TableCell>
+                  <TableCell>{renderTiming(result)}</TableCell>
+                  <TableCell>
+                    {renderDetails(result)}
+                    {renderRedirectToggle(result)}
+                    {onIgnore && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onIgnore(result)}
+                        className="h-auto p-0 mt-1 text-xs text-gray-500 flex items-center gap-1"
+                      >
+                        <EyeOff className="h-3 w-3" />
+                        Ignore this
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+                {expandedOccurrenceUrls.has(result.url) && renderOccurrences(result)}
+                {expandedUrls.has(result.url) && renderRedirectChain(result)}
+              </React.Fragment>
+            ))}
+            {paddingBottom > 0 && <tr aria-hidden="true" style={{ height: paddingBottom }} />}
+            {pendingRows.map(url => (
+              <TableRow key={`pending-${url}`} aria-busy="true">
+                <TableCell className="font-medium overflow-hidden text-ellipsis text-gray-400">{url}</TableCell>
+                <TableCell><Skeleton className="h-5 w-20" /></TableCell>
+                <TableCell><Skeleton className="h-4 w-12" /></TableCell>
+                <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+              </TableRow>
+            ))}
+            {hiddenPendingCount > 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-sm text-gray-500">
+                  {hiddenPendingCount} more link{hiddenPendingCount > 1 ? "s" : ""} waiting to be checked
+                </TableCell>
+              </TableRow>
+            )}
+            {sortedResults.length === 0 && pendingUrls.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-gray-500">
+                  No links match these filters.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-500 whitespace-nowrap">
+            {(currentPage - 1) * pageSize + 1}–{Math.min(currentPage * pageSize, sortedResults.length)} of {sortedResults.length}
+          </p>
+          <Pagination className="justify-end">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious href="#" onClick={(e) => goToPage(e, currentPage - 1)} />
+              </PaginationItem>
+              {visiblePages(currentPage, pageCount).map((pageNumber, index) => (
+                <PaginationItem key={pageNumber ?? `ellipsis-${index}`}>
+                  {pageNumber === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={pageNumber === currentPage}
+                      onClick={(e) => goToPage(e, pageNumber)}
+                    >
+                      {pageNumber}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext href="#" onClick={(e) => goToPage(e, currentPage + 1)} />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        </div>
+      )}
     </div>
   );
 };
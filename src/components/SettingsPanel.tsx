@@ -0,0 +1,299 @@
+import React, { useState } from "react";
+import { CheckSettings } from "@/services/settings";
+import { CACHE_BUSTING_STRATEGIES, CacheBusting } from "@/services/cacheBusting";
+import { USER_AGENT_PROFILES, UserAgentProfile, formatHeaderLines, parseHeaderLines } from "@/services/requestOptions";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface SettingsPanelProps {
+  settings: CheckSettings;
+  onChange: (settings: CheckSettings) => void;
+  disabled?: boolean;
+}
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  hint?: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ id, label, hint, value, min, max, step = 1, disabled, onChange }) => (
+  <div className="space-y-1">
+    <Label htmlFor={id}>{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+      onChange={(e) => onChange(Number(e.target.value))}
+    />
+    {hint && <p className="text-xs text-gray-500">{hint}</p>}
+  </div>
+);
+
+interface SwitchFieldProps {
+  id: string;
+  label: string;
+  hint?: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const SwitchField: React.FC<SwitchFieldProps> = ({ id, label, hint, checked, disabled, onChange }) => (
+  <div className="flex items-start justify-between gap-4">
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      {hint && <p className="text-xs text-gray-500">{hint}</p>}
+    </div>
+    <Switch id={id} checked={checked} disabled={disabled} onCheckedChange={onChange} />
+  </div>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const { scheduling, retry, scope, normalization, requests } = settings;
+  // Kept as typed, so a half-written header line isn't thrown away
+  const [headerText, setHeaderText] = useState(() => formatHeaderLines(requests.headers));
+
+  const updateScheduling = (changes: Partial<CheckSettings["scheduling"]>) =>
+    onChange({ ...settings, scheduling: { ...scheduling, ...changes } });
+
+  const updateRetry = (changes: Partial<CheckSettings["retry"]>) =>
+    onChange({ ...settings, retry: { ...retry, ...changes } });
+
+  const updateScope = (changes: Partial<CheckSettings["scope"]>) =>
+    onChange({ ...settings, scope: { ...scope, ...changes } });
+
+  const updateNormalization = (changes: Partial<CheckSettings["normalization"]>) =>
+    onChange({ ...settings, normalization: { ...normalization, ...changes } });
+
+  const updateRequests = (changes: Partial<CheckSettings["requests"]>) =>
+    onChange({ ...settings, requests: { ...requests, ...changes } });
+
+  const updateHeaders = (text: string) => {
+    setHeaderText(text);
+    updateRequests({ headers: parseHeaderLines(text) });
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 rounded-md border bg-gray-50 p-4">
+      <div className="sm:col-span-2">
+        <SwitchField
+          id="article-only"
+          label="Article content only"
+          hint="Skip navigation, footers and other page furniture by finding the article body automatically."
+          checked={scope.articleOnly}
+          disabled={disabled}
+          onChange={(articleOnly) => updateScope({ articleOnly })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="include-selectors">Only links inside</Label>
+        <Input
+          id="include-selectors"
+          value={scope.include}
+          placeholder=".article-body, #story"
+          disabled={disabled}
+          onChange={(e) => updateScope({ include: e.target.value })}
+        />
+        <p className="text-xs text-gray-500">CSS selectors, separated by commas.</p>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="exclude-selectors">Skip links inside</Label>
+        <Input
+          id="exclude-selectors"
+          value={scope.exclude}
+          placeholder=".related-stories, .ad"
+          disabled={disabled}
+          onChange={(e) => updateScope({ exclude: e.target.value })}
+        />
+        <p className="text-xs text-gray-500">CSS selectors, separated by commas.</p>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="max-links">Link limit</Label>
+        <Input
+          id="max-links"
+          type="number"
+          value={settings.maxLinks ?? ""}
+          min={1}
+          placeholder="No limit"
+          disabled={disabled}
+          onChange={(e) => onChange({ ...settings, maxLinks: e.target.value ? Number(e.target.value) : null })}
+        />
+        <p className="text-xs text-gray-500">Leave empty to check every link on the page.</p>
+      </div>
+      <NumberField
+        id="concurrency"
+        label="Parallel checks"
+        hint="Links checked at the same time across all sites."
+        value={scheduling.concurrency}
+        min={1}
+        max={32}
+        disabled={disabled}
+        onChange={(concurrency) => updateScheduling({ concurrency })}
+      />
+      <NumberField
+        id="per-host-concurrency"
+        label="Parallel checks per site"
+        hint="Keeps us from being rate limited by a single site."
+        value={scheduling.perHostConcurrency}
+        min={1}
+        max={8}
+        disabled={disabled}
+        onChange={(perHostConcurrency) => updateScheduling({ perHostConcurrency })}
+      />
+      <NumberField
+        id="per-host-delay"
+        label="Delay between checks on a site (ms)"
+        value={scheduling.perHostDelayMs}
+        min={0}
+        max={10000}
+        step={50}
+        disabled={disabled}
+        onChange={(perHostDelayMs) => updateScheduling({ perHostDelayMs })}
+      />
+      <div className="space-y-3 sm:col-span-2">
+        <p className="text-sm font-medium">Check these as one link</p>
+        <SwitchField
+          id="ignore-trailing-slash"
+          label="With and without a trailing slash"
+          hint="example.com/story and example.com/story/"
+          checked={normalization.ignoreTrailingSlash}
+          disabled={disabled}
+          onChange={(ignoreTrailingSlash) => updateNormalization({ ignoreTrailingSlash })}
+        />
+        <SwitchField
+          id="strip-tracking-params"
+          label="With and without tracking parameters"
+          hint="utm_source, fbclid, gclid and similar"
+          checked={normalization.stripTrackingParams}
+          disabled={disabled}
+          onChange={(stripTrackingParams) => updateNormalization({ stripTrackingParams })}
+        />
+        <SwitchField
+          id="ignore-fragment"
+          label="Pointing at different sections of a page"
+          hint="Saves requests, but stops checking that each #section exists."
+          checked={normalization.ignoreFragment}
+          disabled={disabled}
+          onChange={(ignoreFragment) => updateNormalization({ ignoreFragment })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="cache-busting">Cache busting</Label>
+        <Select
+          value={settings.cacheBusting}
+          onValueChange={(value) => onChange({ ...settings, cacheBusting: value as CacheBusting })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="cache-busting" className="bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CACHE_BUSTING_STRATEGIES) as CacheBusting[]).map(strategy => (
+              <SelectItem key={strategy} value={strategy}>{CACHE_BUSTING_STRATEGIES[strategy].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500">{CACHE_BUSTING_STRATEGIES[settings.cacheBusting].description}</p>
+      </div>
+      <NumberField
+        id="slow-threshold"
+        label="Slow link threshold (ms)"
+        hint="Links taking longer than this to answer are flagged as slow."
+        value={settings.slowThresholdMs}
+        min={100}
+        max={60000}
+        step={100}
+        disabled={disabled}
+        onChange={(slowThresholdMs) => onChange({ ...settings, slowThresholdMs })}
+      />
+      <NumberField
+        id="page-timeout"
+        label="Page timeout (ms)"
+        value={requests.pageTimeoutMs}
+        min={1000}
+        max={60000}
+        step={1000}
+        disabled={disabled}
+        onChange={(pageTimeoutMs) => updateRequests({ pageTimeoutMs })}
+      />
+      <NumberField
+        id="link-timeout"
+        label="Link timeout (ms)"
+        hint="For each request to a link."
+        value={requests.linkTimeoutMs}
+        min={1000}
+        max={60000}
+        step={1000}
+        disabled={disabled}
+        onChange={(linkTimeoutMs) => updateRequests({ linkTimeoutMs })}
+      />
+      <div className="space-y-1">
+        <Label htmlFor="user-agent">Identify as</Label>
+        <Select
+          value={requests.userAgent}
+          onValueChange={(value) => updateRequests({ userAgent: value as UserAgentProfile })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="user-agent" className="bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(USER_AGENT_PROFILES) as UserAgentProfile[]).map(profile => (
+              <SelectItem key={profile} value={profile}>{USER_AGENT_PROFILES[profile].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500">Browsers only let the checker backend change the user agent.</p>
+      </div>
+      <div className="space-y-1 sm:col-span-2">
+        <Label htmlFor="custom-headers">Extra request headers</Label>
+        <Textarea
+          id="custom-headers"
+          value={headerText}
+          placeholder="Accept-Language: en-GB"
+          rows={3}
+          disabled={disabled}
+          onChange={(e) => updateHeaders(e.target.value)}
+        />
+        <p className="text-xs text-gray-500">One "Name: value" per line, sent with every request.</p>
+      </div>
+      <NumberField
+        id="cache-ttl"
+        label="Reuse results for (minutes)"
+        hint="Links checked this recently aren't fetched again. 0 checks every link afresh."
+        value={settings.cacheTtlMinutes}
+        min={0}
+        max={10080}
+        step={15}
+        disabled={disabled}
+        onChange={(cacheTtlMinutes) => onChange({ ...settings, cacheTtlMinutes })}
+      />
+      <NumberField
+        id="retries"
+        label="Retries"
+        hint="For timeouts, server errors and rate limiting."
+        value={retry.retries}
+        min={0}
+        max={5}
+        disabled={disabled}
+        onChange={(retries) => updateRetry({ retries })}
+      />
+    </div>
+  );
+};
+
+export default SettingsPanel;
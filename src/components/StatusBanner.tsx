@@ -1,60 +1,184 @@
 
 import React from "react";
-import { LinkCheckResult } from "@/types/linkTypes";
+import { IssueCategory, IssueSeverity, LinkCheckResult, RedirectHop } from "@/types/linkTypes";
+import { ISSUE_CATEGORIES } from "@/services/linkIssues";
 import { Card } from "@/components/ui/card";
-import { Check, AlertCircle } from "lucide-react";
+import { Check, AlertCircle, AlertTriangle, CornerDownRight, Square } from "lucide-react";
 
 interface StatusBannerProps {
   results: LinkCheckResult[];
   url: string;
+  // Unique links on the page, which can exceed results when a link limit applied
+  totalLinks: number;
+  // Links left out or hidden by the user's ignore rules
+  ignoredLinks?: number;
+  // The user stopped the check before every link was checked
+  cancelled?: boolean;
+  // Where the submitted page itself redirected to; links were resolved against it
+  finalUrl?: string;
+  pageRedirects?: RedirectHop[];
 }
 
-const StatusBanner: React.FC<StatusBannerProps> = ({ results, url }) => {
-  if (results.length === 0) {
+const StatusBanner: React.FC<StatusBannerProps> = ({
+  results,
+  url,
+  totalLinks,
+  ignoredLinks = 0,
+  cancelled,
+  finalUrl,
+  pageRedirects = [],
+}) => {
+  const redirectNotice = pageRedirects.length > 0 && finalUrl && (
+    <Card className="p-4 bg-blue-50 border-blue-200 text-blue-800 max-w-3xl mx-auto">
+      <div className="flex items-center gap-3">
+        <CornerDownRight className="h-5 w-5 shrink-0" />
+        <div className="min-w-0">
+          <p className="font-medium">The page redirected before we checked it</p>
+          <p className="text-sm break-all">
+            {url} → {finalUrl}
+            {pageRedirects.length > 1 && ` (${pageRedirects.length} redirects)`}
+          </p>
+          <p className="text-xs mt-1">Relative links were resolved against the final address.</p>
+        </div>
+      </div>
+    </Card>
+  );
+
+  if (results.length === 0 && cancelled) {
     return (
-      <Card className="p-4 bg-blue-50 border-blue-200 text-blue-700 max-w-3xl mx-auto">
+      <Card className="p-4 bg-gray-100 border-gray-300 text-gray-700 max-w-3xl mx-auto">
         <div className="flex items-center gap-3">
-          <AlertCircle className="h-5 w-5" />
+          <Square className="h-5 w-5" />
           <div>
-            <p className="font-medium">No links found</p>
-            <p className="text-sm">We didn't find any links on the page. Check the URL and try again.</p>
+            <p className="font-medium">Check stopped</p>
+            <p className="text-sm">The check was stopped before any links were checked.</p>
           </div>
         </div>
       </Card>
     );
   }
 
-  const brokenLinks = results.filter(result => !result.isWorking);
-  const brokenCount = brokenLinks.length;
+  if (results.length === 0) {
+    return (
+      <div className="space-y-3">
+        {redirectNotice}
+        <Card className="p-4 bg-blue-50 border-blue-200 text-blue-700 max-w-3xl mx-auto">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="h-5 w-5" />
+            <div>
+              <p className="font-medium">No links found</p>
+              <p className="text-sm">
+                {ignoredLinks > 0
+                  ? `All ${ignoredLinks} link${ignoredLinks > 1 ? "s" : ""} on the page matched your ignore rules.`
+                  : "We didn't find any links on the page. Check the URL and try again."}
+              </p>
+            </div>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const countBySeverity = (severity: IssueSeverity) =>
+    results.filter(result => result.issue?.severity === severity).length;
+
+  const brokenCount = countBySeverity("broken");
+  const warningCount = countBySeverity("warning");
+  const unverifiedCount = countBySeverity("unverified");
+  const needsAttentionCount = brokenCount + warningCount + unverifiedCount;
   const totalCount = results.length;
-  const allWorking = brokenCount === 0;
+  const allWorking = needsAttentionCount === 0;
+
+  const summaryParts = [
+    brokenCount > 0 && `${brokenCount} broken link${brokenCount > 1 ? 's' : ''}`,
+    warningCount > 0 && `${warningCount} warning${warningCount > 1 ? 's' : ''}`,
+    unverifiedCount > 0 && `${unverifiedCount} link${unverifiedCount > 1 ? 's' : ''} we couldn't verify`,
+  ].filter(Boolean);
+
+  // e.g. "3 × Client error (4xx) · 1 × Blocked by bot protection"
+  const categoryCounts = new Map<IssueCategory, number>();
+  results.forEach(result => {
+    if (result.issue) {
+      categoryCounts.set(result.issue.category, (categoryCounts.get(result.issue.category) || 0) + 1);
+    }
+  });
+  const categoryBreakdown = [...categoryCounts.entries()]
+    .map(([category, count]) => `${count} × ${ISSUE_CATEGORIES[category].label}`)
+    .join(" · ");
+
+  const isTruncated = totalLinks > results.length;
+  const scope = isTruncated ? "checked links" : "links on this page";
 
   return (
-    <Card 
-      className={`p-4 max-w-3xl mx-auto ${
-        allWorking ? "bg-green-50 border-green-200 text-green-700" : "bg-amber-50 border-amber-200 text-amber-800"
-      }`}
-    >
-      <div className="flex items-center gap-3">
-        {allWorking ? (
-          <Check className="h-5 w-5" />
-        ) : (
-          <AlertCircle className="h-5 w-5" />
-        )}
-        <div>
-          <p className="font-medium">
-            {allWorking 
-              ? "All clear!" 
-              : `Found ${brokenCount} broken link${brokenCount > 1 ? 's' : ''}`}
-          </p>
-          <p className="text-sm">
-            {allWorking 
-              ? `All ${totalCount} links on this page are working properly.` 
-              : `${brokenCount} out of ${totalCount} links on this page need attention.`}
-          </p>
+    <div className="space-y-3">
+      {redirectNotice}
+      {cancelled && (
+        <Card className="p-4 bg-gray-100 border-gray-300 text-gray-700 max-w-3xl mx-auto">
+          <div className="flex items-center gap-3">
+            <Square className="h-5 w-5" />
+            <div>
+              <p className="font-medium">Check stopped — {results.length} of {totalLinks} links checked</p>
+              <p className="text-sm">The results below only cover the links checked before you stopped.</p>
+            </div>
+          </div>
+        </Card>
+      )}
+      {isTruncated && !cancelled && (
+        <Card className="p-4 bg-amber-50 border-amber-300 text-amber-900 max-w-3xl mx-auto">
+          <div className="flex items-center gap-3">
+            <AlertTriangle className="h-5 w-5" />
+            <div>
+              <p className="font-medium">Only {results.length} of {totalLinks} links were checked</p>
+              <p className="text-sm">
+                The link limit stopped the check early. Raise or clear it under Advanced settings to check every link.
+              </p>
+            </div>
+          </div>
+        </Card>
+      )}
+      <Card 
+        className={`p-4 max-w-3xl mx-auto ${
+          allWorking
+            ? "bg-green-50 border-green-200 text-green-700"
+            : brokenCount > 0
+              ? "bg-red-50 border-red-200 text-red-800"
+              : "bg-amber-50 border-amber-200 text-amber-800"
+        }`}
+      >
+        <div className="flex items-center gap-3">
+          {allWorking ? (
+            <Check className="h-5 w-5" />
+          ) : (
+            <AlertCircle className="h-5 w-5" />
+          )}
+          <div>
+            <p className="font-medium">
+              {allWorking 
+                ? "All clear!" 
+                : `Found ${summaryParts.join(" and ")}`}
+            </p>
+            <p className="text-sm">
+              {allWorking 
+                ? `All ${totalCount} ${scope} are working properly.` 
+                : `${needsAttentionCount} out of ${totalCount} ${scope} need attention.`}
+            </p>
+            {categoryBreakdown && (
+              <p className="text-xs mt-1">{categoryBreakdown}</p>
+            )}
+            {ignoredLinks > 0 && (
+              <p className="text-xs mt-1">
+                {ignoredLinks} link{ignoredLinks > 1 ? "s were" : " was"} skipped by your ignore rules.
+              </p>
+            )}
+            {unverifiedCount > 0 && (
+              <p className="text-xs mt-1">
+                Unverified links were blocked or rate limited before we got an answer; they may still work.
+              </p>
+            )}
+          </div>
         </div>
-      </div>
-    </Card>
+      </Card>
+    </div>
   );
 };
 
@@ -2,15 +2,45 @@
 import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import SettingsPanel from "@/components/SettingsPanel";
+import IgnoreRulesPanel from "@/components/IgnoreRulesPanel";
+import CredentialsPanel from "@/components/CredentialsPanel";
+import { CheckSettings } from "@/services/settings";
+import { IgnoreRule } from "@/services/ignoreRules";
+import { CredentialProfile } from "@/services/credentials";
+import { ChevronDown, ChevronRight, Square } from "lucide-react";
 import { toast } from "sonner";
 
 interface UrlFormProps {
-  onSubmit: (url: string) => void;
+  // forceRecheck skips results remembered from earlier checks
+  onSubmit: (url: string, forceRecheck: boolean) => void;
+  // Stops the running check; partial results are kept
+  onStop: () => void;
   isLoading: boolean;
+  settings: CheckSettings;
+  onSettingsChange: (settings: CheckSettings) => void;
+  ignoreRules: IgnoreRule[];
+  onIgnoreRulesChange: (rules: IgnoreRule[]) => void;
+  credentials: CredentialProfile[];
+  onCredentialsChange: (profiles: CredentialProfile[]) => void;
 }
 
-const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, isLoading }) => {
+const UrlForm: React.FC<UrlFormProps> = ({
+  onSubmit,
+  onStop,
+  isLoading,
+  settings,
+  onSettingsChange,
+  ignoreRules,
+  onIgnoreRulesChange,
+  credentials,
+  onCredentialsChange,
+}) => {
   const [url, setUrl] = useState("");
+  const [showSettings, setShowSettings] = useState(false);
+  const [forceRecheck, setForceRecheck] = useState(false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,7 +61,7 @@ const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, isLoading }) => {
     try {
       // Check if URL is valid
       new URL(processedUrl);
-      onSubmit(processedUrl);
+      onSubmit(processedUrl, forceRecheck);
     } catch (error) {
       toast.error("Please enter a valid URL");
     }
@@ -54,18 +84,53 @@ const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, isLoading }) => {
             disabled={isLoading}
             aria-describedby="url-description"
           />
-          <Button 
-            type="submit" 
-            disabled={isLoading} 
-            className="whitespace-nowrap"
-          >
-            {isLoading ? "Checking..." : "Check Links"}
-          </Button>
+          {isLoading ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onStop}
+              className="whitespace-nowrap flex items-center gap-2"
+            >
+              <Square className="h-4 w-4" />
+              Stop
+            </Button>
+          ) : (
+            <Button 
+              type="submit" 
+              className="whitespace-nowrap"
+            >
+              Check Links
+            </Button>
+          )}
         </div>
         <p id="url-description" className="mt-2 text-sm text-gray-500">
           We'll check all links on this single page (no crawling).
         </p>
+        <div className="mt-2 flex items-center gap-2">
+          <Checkbox
+            id="force-recheck"
+            checked={forceRecheck}
+            disabled={isLoading}
+            onCheckedChange={(checked) => setForceRecheck(checked === true)}
+          />
+          <label htmlFor="force-recheck" className="text-sm text-gray-600">
+            Recheck links even if they were checked recently
+          </label>
+        </div>
       </div>
+      <Collapsible open={showSettings} onOpenChange={setShowSettings}>
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="px-0 text-gray-600 flex items-center gap-1">
+            {showSettings ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            Advanced settings
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-2 space-y-4">
+          <SettingsPanel settings={settings} onChange={onSettingsChange} disabled={isLoading} />
+          <IgnoreRulesPanel rules={ignoreRules} onChange={onIgnoreRulesChange} disabled={isLoading} />
+          <CredentialsPanel profiles={credentials} onChange={onCredentialsChange} disabled={isLoading} />
+        </CollapsibleContent>
+      </Collapsible>
     </form>
   );
 };
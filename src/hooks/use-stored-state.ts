@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+
+// State remembered in this browser between sessions. Whatever was saved goes
+// through `sanitize` first, as does nothing at all (`undefined`), so an old or
+// hand-edited entry can't break the app.
+export function useStoredState<T>(key: string, sanitize: (saved: unknown) => T) {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const saved = localStorage.getItem(key);
+      return sanitize(saved ? JSON.parse(saved) : undefined);
+    } catch {
+      return sanitize(undefined);
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(key, JSON.stringify(value));
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
@@ -0,0 +1,54 @@
+import { UIEvent, useCallback, useMemo, useState } from "react";
+
+interface VirtualRowsOptions {
+  count: number;
+  // Rows can differ in height (e.g. expanded details), so each gets an estimate
+  estimateRowHeight: (index: number) => number;
+  viewportHeight: number;
+  overscan?: number;
+  enabled: boolean;
+}
+
+// Renders only the rows near the visible part of a scroll container and pads
+// the rest with spacer height, so tables with thousands of rows stay fast.
+export function useVirtualRows({ count, estimateRowHeight, viewportHeight, overscan = 10, enabled }: VirtualRowsOptions) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (let i = 0; i < count; i++) {
+      result.push(result[i] + estimateRowHeight(i));
+    }
+    return result;
+  }, [count, estimateRowHeight]);
+
+  const onScroll = useCallback((event: UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  if (!enabled) {
+    return { start: 0, end: count, paddingTop: 0, paddingBottom: 0, onScroll };
+  }
+
+  // First row whose bottom edge is below the top of the viewport
+  let first = 0;
+  while (first < count && offsets[first + 1] <= scrollTop) {
+    first++;
+  }
+
+  let last = first;
+  while (last < count && offsets[last] < scrollTop + viewportHeight) {
+    last++;
+  }
+
+  const start = Math.max(0, first - overscan);
+  const end = Math.min(count, last + overscan);
+
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+    onScroll,
+  };
+}
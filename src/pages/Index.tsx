@@ -1,61 +1,217 @@
 
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import UrlForm from "@/components/UrlForm";
 import ResultsTable from "@/components/ResultsTable";
 import StatusBanner from "@/components/StatusBanner";
-import { LinkCheckResult } from "@/types/linkTypes";
-import { checkLinks } from "@/services/linkChecker";
+import { CheckEvent, LinkCheckReport, LinkCheckResult } from "@/types/linkTypes";
+import { parseTransportSpec } from "@/services/transports";
+import { checkLinksOnBackend, isCheckerBackendAvailable } from "@/services/checkerBackend";
+import { checkLinksInWorker } from "@/services/checkerWorker";
+import { ISSUE_CATEGORIES, PROBE_LABELS, SEVERITY_LABELS } from "@/services/linkIssues";
+import { PAGE_REGIONS, RESOURCE_KINDS } from "@/services/linkExtractor";
+import { sanitizeSettings } from "@/services/settings";
+import { createRule, createRuleMatcher, sanitizeRules } from "@/services/ignoreRules";
+import { sanitizeProfiles } from "@/services/credentials";
+import { useStoredState } from "@/hooks/use-stored-state";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { ArrowDown, AlertCircle } from "lucide-react";
 import { toast } from "sonner";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 
+// Which transports to use is chosen per deployment, e.g.
+// VITE_FETCH_TRANSPORT="backend:https://checker.newsroom.internal/api/fetch"
+const transports = parseTransportSpec(import.meta.env.VITE_FETCH_TRANSPORT);
+
+// Settings, ignore rules and logins are remembered in this browser only
+const STORAGE_KEYS = {
+  settings: "linkscribe:check-settings",
+  ignoreRules: "linkscribe:ignore-rules",
+  credentials: "linkscribe:credentials",
+};
+
+// The checker only reports events; turning them into toasts is up to the page
+const showProgressToast = (event: CheckEvent) => {
+  switch (event.type) {
+    case "phase":
+      if (event.phase === "fetching") {
+        toast.info("Fetching page content...", { id: "fetch-status" });
+      } else if (event.phase === "extracting") {
+        toast.info("Extracting links...", { id: "fetch-status" });
+      } else if (event.phase === "done") {
+        toast.dismiss("check-progress");
+      }
+      break;
+    case "links":
+      if (event.links.length === 0) {
+        toast.info("No links found on the page", { id: "fetch-status" });
+      } else {
+        toast.success(`Found ${event.links.length} links to check`, { id: "fetch-status" });
+      }
+      break;
+    case "link-finish":
+      toast.info(`Checking links: ${Math.round((event.completed / event.total) * 100)}% complete`, { id: "check-progress" });
+      break;
+    case "warning":
+      toast.warning(event.message);
+      break;
+  }
+};
+
+const showSummaryToast = (report: LinkCheckReport) => {
+  const brokenCount = report.results.filter(r => r.issue?.severity === "broken").length;
+
+  if (report.cancelled) {
+    toast.info(`Check stopped after ${report.results.length} of ${report.totalLinks} links`);
+  } else if (report.results.length === 0) {
+    return;
+  } else if (brokenCount > 0) {
+    toast.warning(`Found ${brokenCount} broken link${brokenCount > 1 ? 's' : ''}`);
+  } else {
+    toast.success("All links are working properly!");
+  }
+};
+
 const Index = () => {
-  const [results, setResults] = useState<LinkCheckResult[]>([]);
+  const [report, setReport] = useState<LinkCheckReport | null>(null);
   const [isChecking, setIsChecking] = useState(false);
   const [hasChecked, setHasChecked] = useState(false);
   const [url, setUrl] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [settings, setSettings] = useStoredState(STORAGE_KEYS.settings, sanitizeSettings);
+  // Links found on the page that haven't got a result yet
+  const [pendingLinks, setPendingLinks] = useState<string[]>([]);
+  const [ignoreRules, setIgnoreRules] = useStoredState(STORAGE_KEYS.ignoreRules, sanitizeRules);
+  const [credentials, setCredentials] = useStoredState(STORAGE_KEYS.credentials, sanitizeProfiles);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Rules added after a check (e.g. with "Ignore this") hide matching results straight away
+  const ruleMatcher = useMemo(() => createRuleMatcher(ignoreRules), [ignoreRules]);
+  const checkedResults = report?.results ?? [];
+  const results = checkedResults.filter(result => !ruleMatcher.hides(result));
+  const hiddenCount = checkedResults.length - results.length;
 
-  const handleSubmit = async (submittedUrl: string) => {
+  const handleSubmit = async (submittedUrl: string, forceRecheck = false) => {
     if (!submittedUrl) return;
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let foundLinks = false;
+
+    // Show rows as they come in rather than waiting for the whole check
+    const handleEvent = (event: CheckEvent) => {
+      showProgressToast(event);
+
+      if (event.type === "page") {
+        setReport({
+          url: submittedUrl,
+          finalUrl: event.finalUrl,
+          redirects: event.redirects,
+          results: [],
+          totalLinks: 0,
+          ignoredLinks: 0,
+          cancelled: false,
+        });
+      } else if (event.type === "links") {
+        foundLinks = true;
+        setReport(prev => prev && { ...prev, totalLinks: event.totalLinks, ignoredLinks: event.ignoredLinks });
+        setPendingLinks(event.links);
+      } else if (event.type === "link-finish") {
+        setReport(prev => prev && { ...prev, results: [...prev.results, event.result] });
+        setPendingLinks(prev => prev.filter(link => link !== event.result.url));
+      }
+    };
+
     try {
       setIsChecking(true);
       setHasChecked(false);
       setError(null);
       setUrl(submittedUrl);
-      setResults([]);
+      setReport(null);
+      setPendingLinks([]);
       
-      // Start the link checking process
-      const data = await checkLinks(submittedUrl);
-      setResults(data);
+      // Prefer the bundled checker backend; fall back to checking from the
+      // browser, in a worker so the page stays responsive
+      const checkSettings = sanitizeSettings(settings);
+      const checkOptions = {
+        ignoreRules,
+        credentials,
+        forceRecheck,
+        signal: controller.signal,
+        onEvent: handleEvent,
+      };
+      const data = await isCheckerBackendAvailable()
+        ? await checkLinksOnBackend(submittedUrl, checkSettings, checkOptions)
+        : await checkLinksInWorker(submittedUrl, checkSettings, { ...checkOptions, transports });
+      setReport(data);
       setHasChecked(true);
-      
-      // Success toasts are handled inside checkLinks function
+      showSummaryToast(data);
     } catch (error) {
+      toast.dismiss("fetch-status");
+      toast.dismiss("check-progress");
+
+      if (controller.signal.aborted) {
+        // Keep whatever was checked before the user stopped
+        setReport(prev => prev && { ...prev, cancelled: true });
+        setHasChecked(foundLinks);
+        toast.info("Check stopped");
+        return;
+      }
+
       console.error("Error checking links:", error);
       setError(error instanceof Error ? error.message : 'Something went wrong while checking links.');
       setHasChecked(true);
       toast.error(`Error checking links: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
+      setPendingLinks([]);
+      abortRef.current = null;
       setIsChecking(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleIgnore = (result: LinkCheckResult) => {
+    const rule = createRule({ type: "url", pattern: result.url, action: "ignore" });
+    setIgnoreRules(prev => [...prev, rule]);
+    toast.success("Link ignored in future checks", {
+      action: {
+        label: "Undo",
+        onClick: () => setIgnoreRules(prev => prev.filter(existing => existing.id !== rule.id)),
+      },
+    });
+  };
+
   const downloadCsv = () => {
     if (results.length === 0) return;
     
     // Create CSV content
-    const headers = ["URL", "Status", "Status Code", "Error"];
+    const headers = ["URL", "Type", "Region", "Link Text", "Severity", "Category", "Status Code", "Message", "Attempts", "Probe", "Redirects", "Final URL", "Requested URL", "TTFB (ms)", "Total Time (ms)", "Slow", "Signed In", "Cached From"];
     const csvRows = [
       headers.join(","),
       ...results.map(result => {
-        const status = result.isWorking ? "Working" : "Broken";
+        const severity = result.issue ? SEVERITY_LABELS[result.issue.severity] : "OK";
+        const category = result.issue ? ISSUE_CATEGORIES[result.issue.category].label : "";
         const statusCode = result.statusCode || "";
-        const error = result.error ? `"${result.error.replace(/"/g, '""')}"` : "";
-        return [result.url, status, statusCode, error].join(",");
+        const message = result.issue ? `"${result.issue.message.replace(/"/g, '""')}"` : "";
+        const redirects = result.redirects?.length || 0;
+        const finalUrl = result.finalUrl && result.finalUrl !== result.url ? result.finalUrl : "";
+        const attempts = result.attempts || 1;
+        const probe = result.probe ? PROBE_LABELS[result.probe] : "";
+        const requestedUrl = result.requestedUrl && result.requestedUrl !== result.url ? result.requestedUrl : "";
+        const ttfb = result.timing?.ttfbMs ?? "";
+        const totalTime = result.timing?.totalMs ?? "";
+        const slow = result.slow ? "Yes" : "";
+        const signedIn = result.authenticated ? "Yes" : "";
+        const cachedFrom = result.cachedAt ? new Date(result.cachedAt).toISOString() : "";
+        const kinds = [...new Set((result.occurrences || []).map(o => RESOURCE_KINDS[o.kind].label))].join("; ");
+        const regions = [...new Set((result.occurrences || []).map(o => PAGE_REGIONS[o.region].label))].join("; ");
+        const text = result.occurrences?.find(o => o.text)?.text;
+        const linkText = text ? `"${text.replace(/"/g, '""')}"` : "";
+        return [result.url, kinds, regions, linkText, severity, category, statusCode, message, attempts, probe, redirects, finalUrl, requestedUrl, ttfb, totalTime, slow, signedIn, cachedFrom].join(",");
       })
     ];
     
@@ -84,7 +240,17 @@ const Index = () => {
         </header>
 
         <Card className="p-6 mb-6 max-w-3xl mx-auto">
-          <UrlForm onSubmit={handleSubmit} isLoading={isChecking} />
+          <UrlForm
+            onSubmit={handleSubmit}
+            onStop={handleStop}
+            isLoading={isChecking}
+            settings={settings}
+            onSettingsChange={setSettings}
+            ignoreRules={ignoreRules}
+            onIgnoreRulesChange={setIgnoreRules}
+            credentials={credentials}
+            onCredentialsChange={setCredentials}
+          />
         </Card>
 
         {error && hasChecked && (
@@ -96,27 +262,41 @@ const Index = () => {
         )}
 
         {hasChecked && !error && (
-          <>
-            <StatusBanner results={results} url={url} />
-
-            {results.length > 0 && (
-              <div className="my-6 max-w-5xl mx-auto">
-                <div className="flex justify-between items-center mb-4">
-                  <h2 className="text-xl font-semibold text-gray-800">Results</h2>
-                  <Button 
-                    onClick={downloadCsv} 
-                    variant="outline" 
-                    className="flex items-center gap-2"
-                  >
-                    <ArrowDown className="h-4 w-4" />
-                    Download CSV
-                  </Button>
-                </div>
-                
-                <ResultsTable results={results} />
+          <StatusBanner
+            results={results}
+            url={url}
+            totalLinks={(report?.totalLinks ?? checkedResults.length) - hiddenCount}
+            ignoredLinks={(report?.ignoredLinks ?? 0) + hiddenCount}
+            cancelled={report?.cancelled}
+            finalUrl={report?.finalUrl}
+            pageRedirects={report?.redirects}
+          />
+        )}
+
+        {!error && (results.length > 0 || pendingLinks.length > 0) && (
+          <div className="my-6 max-w-5xl mx-auto">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-800">Results</h2>
+                {isChecking && (
+                  <p className="text-sm text-gray-500">
+                    Checked {results.length} of {results.length + pendingLinks.length} links...
+                  </p>
+                )}
               </div>
-            )}
-          </>
+              <Button 
+                onClick={downloadCsv} 
+                variant="outline" 
+                className="flex items-center gap-2"
+                disabled={isChecking}
+              >
+                <ArrowDown className="h-4 w-4" />
+                Download CSV
+              </Button>
+            </div>
+            
+            <ResultsTable results={results} pendingUrls={pendingLinks} onIgnore={handleIgnore} />
+          </div>
         )}
         
         <footer className="mt-12 text-center text-sm text-gray-500">
@@ -0,0 +1,27 @@
+// A signal that fires after `timeoutMs` or as soon as `parent` does, whichever
+// comes first. Call `clear` once the request settles so timers don't pile up.
+export const withTimeout = (timeoutMs: number, parent?: AbortSignal) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const onParentAbort = () => controller.abort();
+
+  if (parent?.aborted) {
+    controller.abort();
+  } else {
+    parent?.addEventListener("abort", onParentAbort);
+  }
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timeoutId);
+      parent?.removeEventListener("abort", onParentAbort);
+    },
+  };
+};
+
+export const createAbortError = () => {
+  const error = new Error("The check was stopped");
+  error.name = "AbortError";
+  return error;
+};
@@ -0,0 +1,31 @@
+import { load } from "cheerio";
+
+// Every fragment a document can be scrolled to: element ids and <a name> anchors
+export const collectAnchors = (html: string): Set<string> => {
+  const $ = load(html);
+  const anchors = new Set<string>();
+
+  $("[id]").each((_, element) => {
+    anchors.add($(element).attr("id"));
+  });
+  $("a[name]").each((_, element) => {
+    anchors.add($(element).attr("name"));
+  });
+
+  return anchors;
+};
+
+// The fragment of a URL, decoded, or null when there's none worth checking.
+// An empty fragment and "#top" always go to the top of the page.
+export const fragmentOf = (url: string): string | null => {
+  const hash = new URL(url).hash.slice(1);
+  if (!hash || hash.toLowerCase() === "top") return null;
+
+  try {
+    return decodeURIComponent(hash);
+  } catch {
+    return hash;
+  }
+};
+
+export const withoutFragment = (url: string) => url.split("#")[0];
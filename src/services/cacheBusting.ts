@@ -0,0 +1,24 @@
+// How link checks try to get past caches. Off by default: changing the URL
+// breaks signed links and makes strict servers answer 400.
+export type CacheBusting = "none" | "query" | "header";
+
+export const CACHE_BUSTING_STRATEGIES: Record<CacheBusting, { label: string; description: string }> = {
+  none: { label: "None", description: "Request links exactly as written." },
+  query: { label: "Query parameter", description: "Adds _cb=<timestamp> to each URL. Can break signed links." },
+  header: { label: "No-cache header", description: "Sends Cache-Control: no-cache. Some proxies drop it." },
+};
+
+// The URL and extra headers to request a link with
+export const applyCacheBusting = (url: string, strategy: CacheBusting): { url: string; headers: Record<string, string> } => {
+  switch (strategy) {
+    case "query": {
+      const busted = new URL(url);
+      busted.searchParams.append("_cb", Date.now().toString());
+      return { url: busted.toString(), headers: {} };
+    }
+    case "header":
+      return { url, headers: { "Cache-Control": "no-cache", "Pragma": "no-cache" } };
+    default:
+      return { url, headers: {} };
+  }
+};
@@ -0,0 +1,95 @@
+import { CheckEvent, CheckStreamMessage, LinkCheckReport } from "@/types/linkTypes";
+import { CheckSettings } from "@/services/settings";
+import { IgnoreRule } from "@/services/ignoreRules";
+import { CredentialProfile } from "@/services/credentials";
+
+// Where the bundled checker backend lives. The Vite dev server mounts it under
+// /api; a standalone deployment can point VITE_CHECKER_API elsewhere.
+export const CHECKER_API_BASE = import.meta.env.VITE_CHECKER_API || "/api";
+
+let availability: Promise<boolean> | null = null;
+
+// Probe the backend once per session; a missing backend simply means we fall
+// back to checking from the browser.
+export const isCheckerBackendAvailable = (): Promise<boolean> => {
+  if (!availability) {
+    availability = (async () => {
+      try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 2000);
+        const response = await fetch(`${CHECKER_API_BASE}/health`, { signal: controller.signal });
+        clearTimeout(timeoutId);
+
+        const payload = await response.json();
+        return response.ok && payload.ok === true;
+      } catch {
+        return false;
+      }
+    })();
+  }
+
+  return availability;
+};
+
+// Yields each JSON line of a streamed response body as it arrives
+async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+
+    const lines = buffered.split("\n");
+    buffered = lines.pop();
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+
+    if (done) break;
+  }
+
+  if (buffered.trim()) yield JSON.parse(buffered) as T;
+}
+
+export interface BackendCheckOptions {
+  ignoreRules: IgnoreRule[];
+  credentials: CredentialProfile[];
+  forceRecheck?: boolean;
+  signal?: AbortSignal;
+  onEvent?: (event: CheckEvent) => void;
+}
+
+export const checkLinksOnBackend = async (
+  url: string,
+  settings: CheckSettings,
+  { ignoreRules, credentials, forceRecheck, signal, onEvent }: BackendCheckOptions
+): Promise<LinkCheckReport> => {
+  // Aborting closes the connection, which stops the check on the server too
+  const response = await fetch(`${CHECKER_API_BASE}/check`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url, settings, ignoreRules, credentials, forceRecheck }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error?.message || `Checker backend failed: ${response.status}`);
+  }
+
+  // The server relays the check's own events, so progress looks the same as
+  // when checking from the browser
+  for await (const message of readNdjson<CheckStreamMessage>(response)) {
+    if (message.type === "report") {
+      return message.report;
+    } else if (message.type === "error") {
+      throw new Error(message.message);
+    } else {
+      onEvent?.(message);
+    }
+  }
+
+  throw new Error("The checker backend stopped before finishing the check");
+};
@@ -0,0 +1,116 @@
+import { LinkCheckReport } from "@/types/linkTypes";
+import { CheckSettings } from "@/services/settings";
+import { BackendCheckOptions } from "@/services/checkerBackend";
+import { TransportConfig, createTransport } from "@/services/transports";
+import { checkLinks } from "@/services/linkChecker";
+import { createIndexedDbResultCache } from "@/services/resultCache";
+import { createAbortError } from "@/services/abort";
+import { WorkerRequest, WorkerResponse } from "@/workers/protocol";
+
+export interface WorkerCheckOptions extends BackendCheckOptions {
+  transports: TransportConfig[];
+}
+
+interface RunningCheck {
+  resolve: (report: LinkCheckReport) => void;
+  reject: (error: Error) => void;
+  onEvent?: BackendCheckOptions["onEvent"];
+}
+
+let worker: Worker | null = null;
+const running = new Map<string, RunningCheck>();
+let nextId = 0;
+
+// Only used without workers; the worker keeps its own handle on the same database
+const mainThreadCache = createIndexedDbResultCache();
+
+// One worker for the session, started on the first check
+const getWorker = () => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("../workers/linkChecker.worker.ts", import.meta.url), { type: "module" });
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const check = running.get(message.id);
+    if (!check) return;
+
+    if (message.type === "event") {
+      check.onEvent?.(message.event);
+    } else {
+      running.delete(message.id);
+      if (message.type === "report") {
+        check.resolve(message.report);
+      } else {
+        check.reject(new Error(message.message));
+      }
+    }
+  };
+
+  // A crashed worker takes its checks with it; the next check starts a new one
+  worker.onerror = (event) => {
+    const error = new Error(event.message || "The link checker stopped unexpectedly");
+    running.forEach(check => check.reject(error));
+    running.clear();
+    worker.terminate();
+    worker = null;
+  };
+
+  return worker;
+};
+
+// Where workers aren't available the check runs on the main thread, as before
+const checkOnMainThread = (url: string, settings: CheckSettings, options: WorkerCheckOptions) => {
+  const { transports, ...rest } = options;
+  return checkLinks(url, {
+    ...settings,
+    ...rest,
+    transports: transports.map(createTransport),
+    cache: mainThreadCache,
+  });
+};
+
+// Checks a page in the link checker worker. Stopping rejects straight away
+// with an AbortError; results already reported through onEvent are the partial
+// report, as with the backend.
+export const checkLinksInWorker = (
+  url: string,
+  settings: CheckSettings,
+  options: WorkerCheckOptions
+): Promise<LinkCheckReport> => {
+  if (typeof Worker === "undefined") {
+    return checkOnMainThread(url, settings, options);
+  }
+
+  const { ignoreRules, credentials, forceRecheck = false, transports, signal, onEvent } = options;
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  const id = `check-${++nextId}`;
+  const target = getWorker();
+  const send = (request: WorkerRequest) => target.postMessage(request);
+
+  return new Promise<LinkCheckReport>((resolve, reject) => {
+    const onAbort = () => {
+      running.delete(id);
+      send({ type: "cancel", id });
+      reject(createAbortError());
+    };
+
+    running.set(id, {
+      resolve: report => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(report);
+      },
+      reject: error => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+      onEvent,
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    send({ type: "check", id, url, settings, ignoreRules, credentials, forceRecheck, transports });
+  });
+};
@@ -0,0 +1,111 @@
+import { isOwnKey } from "@/services/objects";
+import { isBareDomain, matchesDomain, normalizeDomain } from "@/services/domains";
+import { createId } from "@/services/ids";
+
+// Credentials for checking pages that need a login, e.g. CMS previews or
+// subscriber-only articles. Each profile applies to one domain and its
+// subdomains, and is only sent over transports we run ourselves.
+export type CredentialType = "cookie" | "bearer" | "basic";
+
+export interface CredentialProfile {
+  id: string;
+  domain: string;
+  type: CredentialType;
+  // The cookie string ("name=value; other=value") or the bearer token
+  secret?: string;
+  username?: string;
+  password?: string;
+}
+
+export const CREDENTIAL_TYPES: Record<CredentialType, { label: string; placeholder?: string }> = {
+  cookie: { label: "Cookies", placeholder: "session=abc123; preview=1" },
+  bearer: { label: "Bearer token", placeholder: "eyJhbGciOi..." },
+  basic: { label: "Username and password" },
+};
+
+const MAX_PROFILES = 50;
+const MAX_SECRET_LENGTH = 8000;
+
+// Returns why a profile can't be used, or null when it's fine
+export const validateProfile = (profile: Omit<CredentialProfile, "id">): string | null => {
+  const domain = normalizeDomain(profile.domain);
+  if (!domain) return "Enter the domain the credentials are for";
+  if (!isBareDomain(domain)) return "Enter just the domain, e.g. cms.example.com";
+
+  if (profile.type === "basic") {
+    if (!profile.username) return "Enter a username";
+    if (/:/.test(profile.username)) return "Usernames can't contain a colon";
+  } else if (!profile.secret?.trim()) {
+    return profile.type === "cookie" ? "Enter the cookies to send" : "Enter the token to send";
+  }
+
+  if (/[\r\n]/.test(`${profile.secret ?? ""}${profile.username ?? ""}${profile.password ?? ""}`)) {
+    return "Credentials can't span several lines";
+  }
+
+  return null;
+};
+
+// Base64 of UTF-8 text, in the browser and in Node
+const encodeBase64 = (text: string) =>
+  btoa(Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join(""));
+
+const headersOf = (profile: CredentialProfile): Record<string, string> => {
+  switch (profile.type) {
+    case "cookie":
+      return { Cookie: profile.secret.trim() };
+    case "bearer":
+      return { Authorization: `Bearer ${profile.secret.trim()}` };
+    case "basic":
+      return { Authorization: `Basic ${encodeBase64(`${profile.username}:${profile.password ?? ""}`)}` };
+  }
+};
+
+// Looks up the headers to authenticate a request with. The most specific
+// domain wins, so "preview.example.com" beats "example.com".
+export const createCredentialResolver = (profiles: CredentialProfile[]) => {
+  const usable = profiles
+    .filter(profile => !validateProfile(profile))
+    .map(profile => ({ domain: normalizeDomain(profile.domain), headers: headersOf(profile) }))
+    .sort((a, b) => b.domain.length - a.domain.length);
+
+  return (url: string): Record<string, string> | null => {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      return null;
+    }
+    return usable.find(profile => matchesDomain(hostname, profile.domain))?.headers ?? null;
+  };
+};
+
+export type CredentialResolver = ReturnType<typeof createCredentialResolver>;
+
+export const createProfile = (profile: Omit<CredentialProfile, "id">): CredentialProfile => ({
+  ...profile,
+  domain: normalizeDomain(profile.domain),
+  id: createId(),
+});
+
+// Drops anything malformed, so saved and posted profiles can be trusted
+export const sanitizeProfiles = (input: unknown): CredentialProfile[] => {
+  if (!Array.isArray(input)) return [];
+
+  return input.slice(0, MAX_PROFILES).flatMap((candidate): CredentialProfile[] => {
+    const profile = candidate as Partial<CredentialProfile>;
+    if (!profile || typeof profile.domain !== "string" || !isOwnKey(CREDENTIAL_TYPES, profile.type)) return [];
+
+    const text = (value: unknown) => (typeof value === "string" ? value.slice(0, MAX_SECRET_LENGTH) : undefined);
+    const sanitized = {
+      domain: normalizeDomain(profile.domain),
+      type: profile.type,
+      secret: text(profile.secret),
+      username: text(profile.username),
+      password: text(profile.password),
+    };
+    if (validateProfile(sanitized)) return [];
+
+    return [{ ...sanitized, id: typeof profile.id === "string" && profile.id ? profile.id : createProfile(sanitized).id }];
+  });
+};
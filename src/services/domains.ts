@@ -0,0 +1,10 @@
+// Domains as users write them for rules and logins: "example.com",
+// ".example.com" and "*.example.com" all mean the domain and its subdomains
+export const normalizeDomain = (domain: string) => domain.trim().toLowerCase().replace(/^\*?\./, "");
+
+// A domain on its own, without a scheme, port or path
+export const isBareDomain = (domain: string) => !/[/:\s]/.test(domain);
+
+// "example.com" also covers "www.example.com"; `domain` is already normalized
+export const matchesDomain = (hostname: string, domain: string) =>
+  hostname === domain || hostname.endsWith(`.${domain}`);
@@ -0,0 +1,3 @@
+// Ids for things the user creates and saves, such as rules and logins. Unique
+// enough within one browser's list; not meant to be secret.
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
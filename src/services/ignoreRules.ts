@@ -0,0 +1,169 @@
+import { LinkCheckResult } from "@/types/linkTypes";
+import { isOwnKey } from "@/services/objects";
+import { isBareDomain, matchesDomain, normalizeDomain } from "@/services/domains";
+import { createId } from "@/services/ids";
+
+export type IgnoreRuleType = "url" | "domain" | "glob" | "regex";
+
+export interface IgnoreRule {
+  id: string;
+  type: IgnoreRuleType;
+  pattern: string;
+  // "allow" rules win over "ignore" rules, e.g. to keep checking one section
+  // of an otherwise ignored site
+  action: "ignore" | "allow";
+  // Only ignore the link when it answers with one of these statuses, e.g.
+  // LinkedIn's 999. Such links are still checked, then hidden.
+  statusCodes?: number[];
+}
+
+export const IGNORE_RULE_TYPES: Record<IgnoreRuleType, { label: string; placeholder: string }> = {
+  url: { label: "Exact URL", placeholder: "https://www.linkedin.com/in/someone" },
+  domain: { label: "Domain", placeholder: "linkedin.com" },
+  glob: { label: "Pattern", placeholder: "https://*.ft.com/content/*" },
+  regex: { label: "Regular expression", placeholder: "^https://(www\\.)?wsj\\.com/" },
+};
+
+// Rule files shared between team members carry a version so the format can change
+const RULE_FILE_VERSION = 1;
+const MAX_RULES = 1000;
+const MAX_PATTERN_LENGTH = 2000;
+
+const escapeRegex = (value: string) => value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+
+// "*" matches anything, "?" a single character
+const globToRegex = (glob: string) =>
+  new RegExp(`^${escapeRegex(glob).replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "i");
+
+// Returns why a pattern can't be used, or null when it's fine
+export const validatePattern = (type: IgnoreRuleType, pattern: string): string | null => {
+  const trimmed = pattern.trim();
+  if (!trimmed) return "Enter a pattern";
+
+  try {
+    if (type === "url") new URL(trimmed);
+    if (type === "regex") new RegExp(trimmed, "i");
+  } catch {
+    return type === "url" ? "Not a valid URL" : "Not a valid regular expression";
+  }
+
+  if (type === "domain" && !isBareDomain(trimmed)) {
+    return "Enter just the domain, e.g. linkedin.com";
+  }
+
+  return null;
+};
+
+const createMatcher = (rule: IgnoreRule): ((url: string) => boolean) => {
+  const pattern = rule.pattern.trim();
+
+  switch (rule.type) {
+    case "url": {
+      const normalized = new URL(pattern).toString();
+      return url => url === normalized;
+    }
+    case "domain": {
+      // Also matches subdomains, so "linkedin.com" covers "www.linkedin.com"
+      const domain = normalizeDomain(pattern);
+      return url => matchesDomain(new URL(url).hostname, domain);
+    }
+    case "glob": {
+      const regex = globToRegex(pattern);
+      return url => regex.test(url);
+    }
+    case "regex": {
+      const regex = new RegExp(pattern, "i");
+      return url => regex.test(url);
+    }
+  }
+};
+
+// Compiles the rules once; rules whose pattern no longer parses never match
+export const createRuleMatcher = (rules: IgnoreRule[]) => {
+  const compiled = rules.flatMap(rule => {
+    if (validatePattern(rule.type, rule.pattern)) return [];
+    return [{ rule, matches: createMatcher(rule) }];
+  });
+
+  const isAllowed = (url: string) =>
+    compiled.some(({ rule, matches }) => rule.action === "allow" && matches(url));
+
+  return {
+    // Links to leave out before checking
+    skips: (url: string) =>
+      !isAllowed(url) &&
+      compiled.some(({ rule, matches }) => rule.action === "ignore" && !rule.statusCodes?.length && matches(url)),
+
+    // Results to hide once checked, including those only ignored for certain statuses
+    hides: (result: LinkCheckResult) =>
+      !isAllowed(result.url) &&
+      compiled.some(({ rule, matches }) =>
+        rule.action === "ignore" &&
+        (!rule.statusCodes?.length || rule.statusCodes.includes(result.statusCode)) &&
+        matches(result.url)
+      ),
+  };
+};
+
+export const createRule = (rule: Omit<IgnoreRule, "id">): IgnoreRule => ({
+  ...rule,
+  pattern: rule.pattern.trim(),
+  id: createId(),
+});
+
+// Drops anything malformed, so saved, imported and posted rules can be trusted
+export const sanitizeRules = (input: unknown): IgnoreRule[] => {
+  if (!Array.isArray(input)) return [];
+
+  return input.slice(0, MAX_RULES).flatMap((candidate): IgnoreRule[] => {
+    const rule = candidate as Partial<IgnoreRule>;
+    if (!rule || typeof rule.pattern !== "string" || !isOwnKey(IGNORE_RULE_TYPES, rule.type)) return [];
+    if (rule.pattern.length > MAX_PATTERN_LENGTH || validatePattern(rule.type, rule.pattern)) return [];
+
+    const statusCodes = Array.isArray(rule.statusCodes)
+      ? rule.statusCodes.map(Number).filter(code => Number.isInteger(code) && code >= 100 && code <= 999)
+      : [];
+
+    return [{
+      id: typeof rule.id === "string" && rule.id ? rule.id : createRule(rule as IgnoreRule).id,
+      type: rule.type,
+      pattern: rule.pattern.trim(),
+      action: rule.action === "allow" ? "allow" : "ignore",
+      ...(statusCodes.length > 0 && { statusCodes }),
+    }];
+  });
+};
+
+export const serializeRules = (rules: IgnoreRule[]) =>
+  JSON.stringify({ version: RULE_FILE_VERSION, rules }, null, 2);
+
+// Accepts an exported rule file, or a bare list of rules
+export const parseRuleFile = (text: string): IgnoreRule[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The rule file isn't valid JSON");
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) {
+    throw new Error("The rule file doesn't contain a list of rules");
+  }
+
+  return sanitizeRules(list);
+};
+
+// Adds imported rules, skipping ones that are already there
+export const mergeRules = (existing: IgnoreRule[], incoming: IgnoreRule[]) => {
+  const key = (rule: IgnoreRule) => `${rule.action}|${rule.type}|${rule.pattern}|${rule.statusCodes?.join(",") ?? ""}`;
+  const known = new Set(existing.map(key));
+  const ids = new Set(existing.map(rule => rule.id));
+
+  return [
+    ...existing,
+    ...incoming
+      .filter(rule => !known.has(key(rule)))
+      .map(rule => (ids.has(rule.id) ? createRule(rule) : rule)),
+  ];
+};
@@ -1,256 +1,561 @@
 
-import { LinkCheckResult } from "@/types/linkTypes";
-import { toast } from "sonner";
+import { CheckEvent, ExtractedLink, LinkCheckReport, LinkCheckResult, LinkProbe, RedirectHop } from "@/types/linkTypes";
+import { FetchTransport, TransportRequestInit, createTransport, parseTransportSpec } from "@/services/transports";
+import { Soft404Detector, createSoft404Detector } from "@/services/soft404";
+import { classifyError, classifyResponse, createIssue } from "@/services/linkIssues";
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, backoffDelay, isRetryable, parseRetryAfter, sleep } from "@/services/retry";
+import { DEFAULT_SCHEDULER_OPTIONS, SchedulerOptions, createHostScheduler } from "@/services/scheduler";
+import { DEFAULT_EXTRACTION_SCOPE, ExtractionScope, PAGE_KINDS, extractLinks } from "@/services/linkExtractor";
+import { IgnoreRule, createRuleMatcher } from "@/services/ignoreRules";
+import { DEFAULT_NORMALIZE_OPTIONS, NormalizeOptions, groupLinkVariants, normalizeUrl } from "@/services/urlNormalizer";
+import { collectAnchors, fragmentOf, withoutFragment } from "@/services/anchors";
+import { PageFetcher, createPageFetcher, isHtmlResponse } from "@/services/pageFetcher";
+import { createAbortError, withTimeout } from "@/services/abort";
+import { CacheBusting, applyCacheBusting } from "@/services/cacheBusting";
+import { DEFAULT_REQUEST_OPTIONS, RequestOptions, buildRequestHeaders } from "@/services/requestOptions";
+import { CredentialProfile, CredentialResolver, createCredentialResolver } from "@/services/credentials";
+import { ResultCache } from "@/services/resultCache";
 
-export const checkLinks = async (url: string): Promise<LinkCheckResult[]> => {
+export const DEFAULT_SLOW_THRESHOLD_MS = 3000;
+export const DEFAULT_CACHE_TTL_MINUTES = 60;
+
+export interface CheckLinksOptions {
+  // Transports to try in order for the page; the first that succeeds is also
+  // used for every link on it. Defaults to the public CORS proxies.
+  transports?: FetchTransport[];
+  // How transient failures (timeouts, 5xx, 429) are retried
+  retry?: Partial<RetryOptions>;
+  // Global and per-host concurrency limits
+  scheduling?: Partial<SchedulerOptions>;
+  // Stop after this many unique links; null or 0 checks them all
+  maxLinks?: number | null;
+  // Which part of the page links are taken from
+  scope?: Partial<ExtractionScope>;
+  // Links matching these are left out before checking
+  ignoreRules?: IgnoreRule[];
+  // Which URL differences still count as the same link
+  normalization?: Partial<NormalizeOptions>;
+  // How link requests get past caches; by default links are requested as written
+  cacheBusting?: CacheBusting;
+  // Links taking longer than this to answer are flagged as slow
+  slowThresholdMs?: number;
+  // Timeouts, user agent and extra headers for every request
+  requests?: Partial<RequestOptions>;
+  // Logins for particular domains; never sent through public proxies
+  credentials?: CredentialProfile[];
+  // Answers from earlier checks, reused while younger than cacheTtlMinutes (0 turns reuse off)
+  cache?: ResultCache;
+  cacheTtlMinutes?: number;
+  // Check every link again, still refreshing the cache
+  forceRecheck?: boolean;
+  // Stops the check; links already checked are kept and the report is marked cancelled
+  signal?: AbortSignal;
+  // Progress: phase changes, the links found, each link starting and finishing
+  onEvent?: (event: CheckEvent) => void;
+}
+
+// The options link checks need, with defaults filled in
+interface LinkCheckOptions {
+  retry: RetryOptions;
+  scheduling: SchedulerOptions;
+  cacheBusting: CacheBusting;
+  slowThresholdMs: number;
+  requests: RequestOptions;
+  credentialsFor: CredentialResolver;
+  normalization: NormalizeOptions;
+  cache: ResultCache | null;
+  cacheTtlMs: number;
+  forceRecheck: boolean;
+}
+
+const withoutCredentials: CredentialResolver = () => null;
+
+// Logins only go out, and results are only marked as signed in, where the
+// transport can really send them
+const credentialsForTransport = (transport: FetchTransport, resolver: CredentialResolver) =>
+  transport.sendsCredentials ? resolver : withoutCredentials;
+
+const skippedCredentialsMessage = (transport: FetchTransport) =>
+  transport.kind === "proxy"
+    ? "Checking without your saved logins: they're never sent through public proxies"
+    : "Checking without your saved logins: browsers won't send them to other sites. Use the checker backend for pages behind a login";
+
+export const checkLinks = async (url: string, options: CheckLinksOptions = {}): Promise<LinkCheckReport> => {
+  const emit = options.onEvent ?? (() => {});
+  const requests = { ...DEFAULT_REQUEST_OPTIONS, ...options.requests };
+  const credentials = createCredentialResolver(options.credentials ?? []);
+  const normalization = { ...DEFAULT_NORMALIZE_OPTIONS, ...options.normalization };
+  
   try {
-    // Show initial loading toast
-    toast.info("Fetching page content...", { id: "fetch-status" });
+    emit({ type: "phase", phase: "fetching" });
     
-    // Try multiple CORS proxies in case one fails
-    const corsProxies = [
-      "https://api.allorigins.win/raw?url=",
-      "https://corsproxy.io/?",
-      "https://cors-anywhere.herokuapp.com/"
-    ];
+    const transports = options.transports?.length
+      ? options.transports
+      : parseTransportSpec(undefined).map(createTransport);
     
     let html = null;
-    let proxyUsed = "";
+    let transportUsed: FetchTransport | null = null;
+    let page: { finalUrl: string; redirects: RedirectHop[] } | null = null;
     let error = null;
     
-    // Try each proxy until one works
-    for (const proxy of corsProxies) {
+    // Try each transport until one works
+    for (const transport of transports) {
       try {
-        const targetUrl = encodeURIComponent(url);
-        const proxyUrl = `${proxy}${targetUrl}`;
-        
-        console.log(`Trying proxy: ${proxy}`);
-        
-        // Fetch the page content with a timeout
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-        
-        const pageResponse = await fetch(proxyUrl, {
-          headers: {
-            'Accept': 'text/html,application/xhtml+xml,application/xml',
-            'User-Agent': 'Mozilla/5.0 (compatible; LinkScribe/1.0)'
-          },
-          signal: controller.signal
-        });
+        console.log(`Trying transport: ${transport.name}`);
         
-        clearTimeout(timeoutId);
+        // Fetch the page content with a timeout, following redirects ourselves
+        // so relative links can be resolved against where the page ended up
+        const timeout = withTimeout(requests.pageTimeoutMs, options.signal);
         
-        if (!pageResponse.ok) {
-          throw new Error(`Failed to fetch the page: ${pageResponse.status} ${pageResponse.statusText}`);
+        try {
+          const { response: pageResponse, redirects, finalUrl } = await fetchFollowingRedirects(transport, url, {
+            headers: buildRequestHeaders(requests, 'text/html,application/xhtml+xml,application/xml'),
+            signal: timeout.signal
+          }, credentialsForTransport(transport, credentials));
+          
+          if (!pageResponse.ok) {
+            throw new Error(`Failed to fetch the page: ${pageResponse.status} ${pageResponse.statusText}`);
+          }
+          
+          html = await pageResponse.text();
+          page = { finalUrl, redirects };
+        } finally {
+          timeout.clear();
         }
         
-        html = await pageResponse.text();
-        proxyUsed = proxy;
+        transportUsed = transport;
         break; // Exit the loop if we successfully got the content
       } catch (err) {
+        if (options.signal?.aborted) {
+          throw createAbortError();
+        }
+        
         error = err;
-        console.log(`Proxy ${proxy} failed:`, err);
-        // Continue to next proxy
+        console.log(`Transport ${transport.name} failed:`, err);
+        if (transport !== transports[transports.length - 1]) {
+          emit({ type: "warning", message: `Couldn't fetch the page via ${transport.name}; trying the next option` });
+        }
+        // Continue to next transport
       }
     }
     
     if (!html) {
-      // If all proxies failed, throw the last error
-      throw error || new Error("All proxies failed to fetch the content");
+      // If all transports failed, throw the last error
+      throw error || new Error("All transports failed to fetch the content");
     }
     
-    toast.info("Extracting links...", { id: "fetch-status" });
-    
-    // Extract links using regex
-    const links = extractLinks(html, url);
+    emit({ type: "page", finalUrl: page.finalUrl, redirects: page.redirects });
+    if (options.credentials?.length && !transportUsed.sendsCredentials) {
+      emit({ type: "warning", message: skippedCredentialsMessage(transportUsed) });
+    }
+    emit({ type: "phase", phase: "extracting" });
     
-    // Deduplicate links
-    const uniqueLinks = [...new Set(links)];
+    // Every unique URL on the page, with the elements it appears on, minus
+    // the ones the user has chosen to ignore. Rules are matched against every
+    // variant, since a rule may name the URL as one particular element wrote it.
+    const extractedLinks = groupLinkVariants(
+      extractLinks(html, page.finalUrl, { ...DEFAULT_EXTRACTION_SCOPE, ...options.scope }),
+      normalization
+    );
+    const rules = createRuleMatcher(options.ignoreRules ?? []);
+    const uniqueLinks = extractedLinks.filter(link =>
+      !rules.skips(link.url) && !link.occurrences.some(occurrence => rules.skips(occurrence.url))
+    );
     
-    // Limit to 25 links for demo purposes
-    const limitedLinks = uniqueLinks.slice(0, 25);
+    // Respect the configured limit, if any
+    const limitedLinks = options.maxLinks ? uniqueLinks.slice(0, options.maxLinks) : uniqueLinks;
+    const report = {
+      url,
+      ...page,
+      results: [],
+      totalLinks: uniqueLinks.length,
+      ignoredLinks: extractedLinks.length - uniqueLinks.length,
+      cancelled: false,
+    };
+    emit({
+      type: "links",
+      links: limitedLinks.map(link => link.url),
+      totalLinks: uniqueLinks.length,
+      ignoredLinks: report.ignoredLinks,
+    });
     
     if (limitedLinks.length === 0) {
-      toast.info("No links found on the page", { id: "fetch-status" });
-      return [];
+      emit({ type: "phase", phase: "done" });
+      return report;
+    }
+    
+    if (limitedLinks.length < uniqueLinks.length) {
+      emit({ type: "warning", message: `Found ${uniqueLinks.length} links; only checking the first ${limitedLinks.length}` });
     }
     
-    toast.success(`Found ${limitedLinks.length} links to check`, { id: "fetch-status" });
+    emit({ type: "phase", phase: "checking" });
     
     // Check links (with throttling to avoid too many concurrent requests)
-    const results = await checkLinksInBatches(limitedLinks, 3, proxyUsed);
+    const results = await checkLinksWithScheduler(
+      limitedLinks,
+      { url: page.finalUrl, anchors: collectAnchors(html) },
+      transportUsed,
+      {
+        retry: { ...DEFAULT_RETRY_OPTIONS, ...options.retry },
+        scheduling: { ...DEFAULT_SCHEDULER_OPTIONS, ...options.scheduling },
+        cacheBusting: options.cacheBusting ?? "none",
+        slowThresholdMs: options.slowThresholdMs ?? DEFAULT_SLOW_THRESHOLD_MS,
+        requests,
+        credentialsFor: credentialsForTransport(transportUsed, credentials),
+        normalization,
+        cache: options.cache ?? null,
+        cacheTtlMs: (options.cacheTtlMinutes ?? DEFAULT_CACHE_TTL_MINUTES) * 60 * 1000,
+        forceRecheck: Boolean(options.forceRecheck),
+      },
+      options.signal,
+      emit
+    );
     
-    return results;
+    emit({ type: "phase", phase: "done" });
+    return { ...report, results, cancelled: Boolean(options.signal?.aborted) };
   } catch (error) {
-    console.error("Error checking links:", error);
-    toast.error(`Failed to check links: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!options.signal?.aborted) {
+      console.error("Error checking links:", error);
+    }
     throw error;
   }
 };
 
-// Extract links from HTML using regex
-function extractLinks(html: string, baseUrl: string): string[] {
-  const links: string[] = [];
+// Check every link through the per-host scheduler; results keep the page's link order
+async function checkLinksWithScheduler(
+  links: ExtractedLink[],
+  // The checked page itself, so links to its own anchors need no request
+  page: { url: string; anchors: Set<string> },
+  transport: FetchTransport,
+  options: LinkCheckOptions,
+  signal: AbortSignal | undefined,
+  emit: (event: CheckEvent) => void
+): Promise<LinkCheckResult[]> {
+  const totalLinks = links.length;
+  const scheduler = createHostScheduler(options.scheduling);
+  let completed = 0;
   
-  try {
-    // Create a DOM parser to handle HTML correctly
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-    
-    // Get all anchor elements
-    const anchorElements = doc.querySelectorAll('a');
-    
-    anchorElements.forEach(anchor => {
-      try {
-        const href = anchor.getAttribute('href');
-        
-        if (href && !href.startsWith('javascript:') && !href.startsWith('#')) {
-          try {
-            // Handle both absolute and relative URLs
-            const resolvedUrl = new URL(href, baseUrl).toString();
-            links.push(resolvedUrl);
-          } catch (e) {
-            console.warn("Skipping invalid URL:", href);
-          }
-        }
-      } catch (e) {
-        console.error("Error processing link:", e);
-      }
-    });
-  } catch (e) {
-    // Fallback to regex if DOM parsing fails
-    console.log("DOM parsing failed, falling back to regex");
-    const hrefRegex = /href=["']((?:(?:https?|ftp):\/\/|\/)[^"'\s>]+)["']/gi;
-    let match;
-    
-    while ((match = hrefRegex.exec(html)) !== null) {
-      try {
-        const href = match[1];
-        
-        if (href && !href.startsWith("javascript:") && !href.startsWith('#')) {
-          try {
-            const resolvedUrl = new URL(href, baseUrl).toString();
-            links.push(resolvedUrl);
-          } catch (e) {
-            console.warn("Skipping invalid URL:", href);
-          }
-        }
-      } catch (e) {
-        console.error("Error processing link:", e);
-      }
-    }
-  }
+  const pageHeaders = buildRequestHeaders(options.requests, 'text/html,application/xhtml+xml');
+  const pageHeadersFor = (url: string) => ({ ...pageHeaders, ...options.credentialsFor(url) });
+  const fetchPage = createPageFetcher(transport, pageHeadersFor, options.requests.linkTimeoutMs, signal);
+  const soft404 = createSoft404Detector(fetchPage);
+  
+  const settled = await Promise.all(links.map(link =>
+    scheduler.schedule(link.url, async () => {
+      // Once stopped, queued links are skipped and in-flight ones discarded
+      if (signal?.aborted) return null;
+      emit({ type: "link-start", url: link.url });
+      const isPage = link.occurrences.some(occurrence => PAGE_KINDS.has(occurrence.kind));
+      const checked = isSamePageAnchor(link.url, page.url)
+        ? checkSamePageAnchor(link.url, page.anchors)
+        : await checkSingleLink(link.url, transport, isPage ? soft404 : null, isPage ? fetchPage : null, options, signal);
+      const result = { ...checked, occurrences: link.occurrences };
+      if (signal?.aborted) return null;
+      
+      completed++;
+      emit({ type: "link-finish", result, completed, total: totalLinks });
+      
+      return result;
+    })
+  ));
+  
+  return settled.filter(Boolean);
+}
+
+const isSamePageAnchor = (url: string, pageUrl: string) =>
+  fragmentOf(url) !== null && withoutFragment(url) === withoutFragment(pageUrl);
 
-  return links;
+function checkSamePageAnchor(url: string, anchors: Set<string>): LinkCheckResult {
+  const fragment = fragmentOf(url);
+  return anchors.has(fragment)
+    ? { url }
+    : { url, issue: createIssue("missing_anchor", `Nothing on this page has the id or name "${fragment}"`) };
 }
 
-// Process links in batches to avoid too many concurrent requests
-async function checkLinksInBatches(links: string[], batchSize: number, proxyUsed: string): Promise<LinkCheckResult[]> {
-  const results: LinkCheckResult[] = [];
-  const totalLinks = links.length;
+// Answers from the cache while they're fresh; otherwise checks the link and
+// remembers the answer. Transient failures and links we couldn't verify
+// aren't remembered, and neither is anything checked with the user's logins.
+// Links a login applies to skip the cache altogether, so an answer from
+// before the login was added can't stand in for a signed-in check.
+async function checkSingleLink(
+  url: string,
+  transport: FetchTransport,
+  // Both null for resources that aren't web pages (images, scripts...)
+  soft404: Soft404Detector | null,
+  fetchPage: PageFetcher | null,
+  options: LinkCheckOptions,
+  signal?: AbortSignal
+): Promise<LinkCheckResult> {
+  const { cacheTtlMs } = options;
+  const cache = options.credentialsFor(url) ? null : options.cache;
+  const key = normalizeUrl(url, options.normalization);
+  
+  if (cache && cacheTtlMs > 0 && !options.forceRecheck) {
+    const entry = await cache.get(key);
+    if (entry && Date.now() - entry.checkedAt < cacheTtlMs) {
+      return { ...entry.result, url, cachedAt: entry.checkedAt };
+    }
+  }
   
-  toast.info(`Starting to check ${totalLinks} links...`, { id: "check-progress" });
+  const result = await checkLinkLive(url, transport, soft404, fetchPage, options, signal);
+  
+  const isLasting = !isRetryable(result.issue) && result.issue?.severity !== "unverified";
+  if (cache && isLasting && !signal?.aborted && !result.authenticated) {
+    await cache.set(key, { result, checkedAt: Date.now() });
+  }
   
-  for (let i = 0; i < links.length; i += batchSize) {
-    const batch = links.slice(i, i + batchSize);
-    const batchPromises = batch.map(link => checkSingleLink(link, proxyUsed));
-    const batchResults = await Promise.all(batchPromises);
-    results.push(...batchResults);
+  return result;
+}
+
+async function checkLinkLive(
+  url: string,
+  transport: FetchTransport,
+  soft404: Soft404Detector | null,
+  fetchPage: PageFetcher | null,
+  options: LinkCheckOptions,
+  signal?: AbortSignal
+): Promise<LinkCheckResult> {
+  const { retry } = options;
+  let attempts = 1;
+  let { result, retryAfterMs, isHtml } = await fetchLinkStatus(url, transport, options, signal);
+  
+  // Give transient failures (timeouts, 5xx, 429) a few more chances
+  while (isRetryable(result.issue) && attempts <= retry.retries && !signal?.aborted) {
+    if (retryAfterMs !== undefined && retryAfterMs > retry.maxRetryAfterMs) {
+      break;
+    }
     
-    // Update toast with progress
-    const progress = Math.min(100, Math.round(((i + batchSize) / links.length) * 100));
-    toast.info(`Checking links: ${progress}% complete`, { id: "check-progress" });
+    await sleep(retryAfterMs ?? backoffDelay(attempts, retry), signal);
+    attempts++;
+    ({ result, retryAfterMs, isHtml } = await fetchLinkStatus(url, transport, options, signal));
   }
   
-  const brokenCount = results.filter(r => !r.isWorking).length;
-  toast.dismiss("check-progress");
+  result.attempts = attempts;
+  result.slow = Boolean(result.timing && result.timing.totalMs > options.slowThresholdMs);
   
-  if (brokenCount > 0) {
-    toast.warning(`Found ${brokenCount} broken link${brokenCount > 1 ? 's' : ''}`);
-  } else {
-    toast.success("All links are working properly!");
+  if (result.issue || !soft404 || !fetchPage || signal?.aborted) {
+    return result;
   }
   
-  return results;
+  // Only working HTML pages are downloaded, once, for both checks below
+  const finalUrl = result.finalUrl || url;
+  const page = isHtml ? await fetchPage(finalUrl) : null;
+  
+  // A working status code isn't the whole story: many sites answer 200 with a "not found" page
+  const reasons = await soft404.detect(url, finalUrl, result.redirects || [], page);
+  
+  if (reasons.length > 0) {
+    return {
+      ...result,
+      issue: createIssue("soft404", "Page appears to be missing (soft 404)"),
+      soft404Reasons: reasons,
+    };
+  }
+  
+  // The page is there, but the section the link points at may not be
+  const fragment = fragmentOf(url);
+  if (fragment && page && !collectAnchors(page.html).has(fragment)) {
+    return {
+      ...result,
+      issue: createIssue("missing_anchor", `The page has no element with the id or name "${fragment}"`),
+    };
+  }
+  
+  return result;
 }
 
-async function checkSingleLink(url: string, proxyUsed: string): Promise<LinkCheckResult> {
+// Ways of asking for a link's status, cheapest first. A probe the server
+// answers with one of its `unsupported` statuses, or that fails outright,
+// hands over to the next; the last one's answer always counts.
+const LINK_PROBES: {
+  probe: LinkProbe;
+  method: string;
+  headers?: Record<string, string>;
+  unsupported: number[];
+}[] = [
+  { probe: "head", method: "HEAD", unsupported: [405, 501] },
+  // 416 comes back for empty files, which have no first byte to send
+  { probe: "range", method: "GET", headers: { Range: "bytes=0-0" }, unsupported: [405, 416, 501] },
+  { probe: "get", method: "GET", unsupported: [] },
+];
+
+// One attempt at a link, plus how long the server asked us to wait before the
+// next one and whether it answered with a working HTML page
+async function fetchLinkStatus(
+  url: string,
+  transport: FetchTransport,
+  options: LinkCheckOptions,
+  signal?: AbortSignal
+): Promise<{ result: LinkCheckResult; retryAfterMs?: number; isHtml?: boolean }> {
+  let targetUrl: string;
+  let cacheHeaders: Record<string, string>;
+  
   try {
-    // Add cache-busting parameter to avoid cached responses
-    const urlWithCacheBuster = new URL(url);
-    urlWithCacheBuster.searchParams.append('_cb', Date.now().toString());
-    
-    // For external URLs, use the same CORS proxy that worked for the initial page
-    const targetUrl = encodeURIComponent(urlWithCacheBuster.toString());
-    const proxyUrl = `${proxyUsed}${targetUrl}`;
-    
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000); // 8 second timeout
-    
-    try {
-      // Try a HEAD request first (faster)
-      const response = await fetch(proxyUrl, {
-        method: "HEAD",
-        redirect: "follow",
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; LinkScribe/1.0)'
-        }
-      });
-      
-      clearTimeout(timeoutId);
-      
-      return {
-        url,
-        isWorking: response.ok,
-        statusCode: response.status,
-        error: response.ok ? undefined : `${response.status} ${response.statusText}`,
-      };
-    } catch (headError) {
-      console.log(`HEAD request failed for ${url}, trying GET`);
-      
-      // If HEAD fails, try GET instead (some servers don't support HEAD)
-      const getController = new AbortController();
-      const getTimeoutId = setTimeout(() => getController.abort(), 8000);
+    new URL(url); // throws for anything that isn't a URL
+    ({ url: targetUrl, headers: cacheHeaders } = applyCacheBusting(url, options.cacheBusting));
+  } catch (error) {
+    return { result: { url, issue: createIssue("invalid_url", "Not a valid URL"), redirects: [] } };
+  }
+  
+  const headers = { ...buildRequestHeaders(options.requests), ...cacheHeaders };
+  const startedAt = performance.now();
+  const timingSince = (ttfbMs?: number) => ({
+    timing: { ttfbMs, totalMs: Math.round(performance.now() - startedAt) },
+  });
+  
+  // Report hops against the link as written, not the cache-busted URL
+  const asReported = (redirects: RedirectHop[], finalUrl?: string) => ({
+    requestedUrl: targetUrl,
+    redirects: redirects.map(hop => hop.url === targetUrl ? { ...hop, url } : hop),
+    finalUrl: finalUrl === targetUrl ? url : finalUrl,
+  });
+  
+  try {
+    for (const [index, { probe, method, headers: probeHeaders, unsupported }] of LINK_PROBES.entries()) {
+      const isLastProbe = index === LINK_PROBES.length - 1;
+      const timeout = withTimeout(options.requests.linkTimeoutMs, signal);
       
       try {
-        const response = await fetch(proxyUrl, {
-          method: "GET",
-          redirect: "follow",
-          signal: getController.signal,
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (compatible; LinkScribe/1.0)'
-          }
-        });
+        const { response, redirects, finalUrl, ttfbMs, authenticated } = await fetchFollowingRedirects(transport, targetUrl, {
+          method,
+          signal: timeout.signal,
+          headers: { ...headers, ...probeHeaders },
+          headersOnly: true
+        }, options.credentialsFor);
         
-        clearTimeout(getTimeoutId);
+        // Only the status matters here, so stop the download. Pages that need
+        // a closer look are fetched again once they're known to work.
+        response.body?.cancel().catch(() => {});
+        
+        if (!isLastProbe && unsupported.includes(response.status)) {
+          console.log(`${method} (${probe}) not supported for ${url}, trying the next probe`);
+          continue;
+        }
         
         return {
-          url,
-          isWorking: response.ok,
-          statusCode: response.status,
-          error: response.ok ? undefined : `${response.status} ${response.statusText}`,
+          result: {
+            url,
+            // A ranged answer stands for the whole resource being there
+            statusCode: probe === "range" && response.status === 206 ? 200 : response.status,
+            issue: classifyResponse(response, transport),
+            probe,
+            ...asReported(redirects, finalUrl),
+            ...timingSince(ttfbMs),
+            authenticated,
+          },
+          retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+          isHtml: response.ok && isHtmlResponse(response),
         };
-      } catch (getError) {
-        clearTimeout(getTimeoutId);
-        throw getError;
+      } catch (probeError) {
+        if (probeError instanceof RedirectError || signal?.aborted || isLastProbe) {
+          throw probeError;
+        }
+        console.log(`${method} (${probe}) request failed for ${url}, trying the next probe`);
+      } finally {
+        timeout.clear();
       }
     }
   } catch (error) {
-    let errorMessage = "Connection failed";
-    
-    if (error instanceof Error) {
-      if (error.name === "AbortError") {
-        errorMessage = "Request timeout";
-      } else {
-        errorMessage = error.message;
-      }
+    if (error instanceof RedirectError) {
+      return {
+        result: {
+          url,
+          statusCode: error.redirects[error.redirects.length - 1]?.status,
+          issue: createIssue(error.category, error.message),
+          ...asReported(error.redirects),
+          ...timingSince(error.ttfbMs),
+        },
+      };
     }
     
     return {
-      url,
-      isWorking: false,
-      error: errorMessage,
+      result: {
+        url,
+        requestedUrl: targetUrl,
+        issue: classifyError(error, transport),
+        redirects: [],
+        ...timingSince(),
+      },
     };
   }
 }
+
+const MAX_REDIRECTS = 10;
+
+class RedirectError extends Error {
+  constructor(
+    message: string,
+    public category: "redirect_loop" | "too_many_redirects",
+    public redirects: RedirectHop[],
+    public ttfbMs?: number
+  ) {
+    super(message);
+    this.name = "RedirectError";
+  }
+}
+
+// Follow redirects one hop at a time so the whole chain can be reported.
+// Transports that cannot hand back 3xx responses (public proxies follow them
+// on their own) only give us the final response. ttfbMs is how long the
+// first response took to arrive.
+async function fetchFollowingRedirects(
+  transport: FetchTransport,
+  url: string,
+  init: TransportRequestInit,
+  credentialsFor: CredentialResolver = withoutCredentials
+): Promise<{ response: Response; redirects: RedirectHop[]; finalUrl: string; ttfbMs: number; authenticated: boolean }> {
+  const startedAt = performance.now();
+  let authenticated = false;
+  
+  // Credentials are looked up hop by hop, so a redirect to another site
+  // never carries them along
+  const initFor = (hopUrl: string): TransportRequestInit => {
+    const credentials = credentialsFor(hopUrl);
+    if (!credentials) return init;
+    authenticated = true;
+    return { ...init, headers: { ...(init.headers as Record<string, string>), ...credentials } };
+  };
+  
+  if (!transport.manualRedirects) {
+    const response = await transport.fetch(url, { ...initFor(url), redirect: "follow" });
+    return { response, redirects: [], finalUrl: url, ttfbMs: Math.round(performance.now() - startedAt), authenticated };
+  }
+  
+  const redirects: RedirectHop[] = [];
+  const visited = new Set<string>([url]);
+  let currentUrl = url;
+  let ttfbMs: number | undefined;
+  
+  for (;;) {
+    const response = await transport.fetch(currentUrl, { ...initFor(currentUrl), redirect: "manual" });
+    if (ttfbMs === undefined) {
+      ttfbMs = Math.round(performance.now() - startedAt);
+    }
+    
+    // Browsers hide the hops of a manual redirect on cross-origin requests,
+    // so let the browser follow it and keep what we can see. We can't tell
+    // where it leads, so credentials are left out.
+    if (response.type === "opaqueredirect") {
+      const followed = await transport.fetch(currentUrl, { ...init, redirect: "follow" });
+      return { response: followed, redirects, finalUrl: followed.url || currentUrl, ttfbMs, authenticated };
+    }
+    
+    const location = response.headers.get("location");
+    
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, redirects, finalUrl: currentUrl, ttfbMs, authenticated };
+    }
+    
+    redirects.push({ url: currentUrl, status: response.status, location });
+    currentUrl = new URL(location, currentUrl).toString();
+    
+    if (visited.has(currentUrl)) {
+      throw new RedirectError("Redirect loop", "redirect_loop", redirects, ttfbMs);
+    }
+    if (redirects.length >= MAX_REDIRECTS) {
+      throw new RedirectError(`Too many redirects (more than ${MAX_REDIRECTS})`, "too_many_redirects", redirects, ttfbMs);
+    }
+    
+    visited.add(currentUrl);
+  }
+}
@@ -0,0 +1,341 @@
+import { ExtractedLink, LinkOccurrence, PageRegion, ResourceKind } from "@/types/linkTypes";
+import { findMainContent } from "@/services/mainContent";
+import { CheerioAPI, load } from "cheerio";
+
+type Selection = ReturnType<CheerioAPI>;
+
+export const RESOURCE_KINDS: Record<ResourceKind, { label: string }> = {
+  link: { label: "Link" },
+  image: { label: "Image" },
+  iframe: { label: "Embedded page" },
+  media: { label: "Video or audio" },
+  script: { label: "Script" },
+  stylesheet: { label: "Stylesheet" },
+  canonical: { label: "Canonical URL" },
+  alternate: { label: "Alternate version" },
+  meta_image: { label: "Social preview image" },
+  embed: { label: "Object or embed" },
+};
+
+export const PAGE_REGIONS: Record<PageRegion, { label: string }> = {
+  main: { label: "Main content" },
+  header: { label: "Header" },
+  navigation: { label: "Navigation" },
+  sidebar: { label: "Sidebar" },
+  footer: { label: "Footer" },
+  head: { label: "Page metadata" },
+  other: { label: "Elsewhere on the page" },
+};
+
+// Which part of the page to take links from
+export interface ExtractionScope {
+  // Only links inside the automatically detected article body
+  articleOnly: boolean;
+  // Comma separated CSS selectors. Links must sit inside one of `include`,
+  // when given, and outside every one of `exclude`.
+  include: string;
+  exclude: string;
+}
+
+export const DEFAULT_EXTRACTION_SCOPE: ExtractionScope = {
+  articleOnly: false,
+  include: "",
+  exclude: "",
+};
+
+// Kinds that point at web pages, so a "not found" page served with 200 is
+// worth looking for. An image can't be a soft 404.
+export const PAGE_KINDS = new Set<ResourceKind>(["link", "iframe", "canonical", "alternate"]);
+
+interface UrlSource {
+  selector: string;
+  attribute: string;
+  kind: ResourceKind;
+  // srcset holds a comma separated list of candidates rather than one URL
+  srcset?: boolean;
+}
+
+const URL_SOURCES: UrlSource[] = [
+  { selector: "a[href], area[href]", attribute: "href", kind: "link" },
+  { selector: "img[src]", attribute: "src", kind: "image" },
+  { selector: "img[srcset], picture source[srcset]", attribute: "srcset", kind: "image", srcset: true },
+  { selector: "video[poster]", attribute: "poster", kind: "image" },
+  { selector: "iframe[src], frame[src]", attribute: "src", kind: "iframe" },
+  { selector: "video[src], audio[src], video source[src], audio source[src], track[src]", attribute: "src", kind: "media" },
+  { selector: "script[src]", attribute: "src", kind: "script" },
+  { selector: "link[rel~='stylesheet'][href]", attribute: "href", kind: "stylesheet" },
+  { selector: "link[rel~='canonical'][href]", attribute: "href", kind: "canonical" },
+  { selector: "link[rel~='alternate'][href]", attribute: "href", kind: "alternate" },
+  {
+    selector: [
+      "meta[property='og:image']",
+      "meta[property='og:image:url']",
+      "meta[property='og:image:secure_url']",
+      "meta[name='twitter:image']",
+      "meta[name='twitter:image:src']",
+    ].join(", "),
+    attribute: "content",
+    kind: "meta_image",
+  },
+  { selector: "object[data]", attribute: "data", kind: "embed" },
+  { selector: "embed[src]", attribute: "src", kind: "embed" },
+];
+
+const MAX_SNIPPET_LENGTH = 240;
+const MAX_TEXT_LENGTH = 120;
+
+// Elements whose text makes up the context a link is read in
+const BLOCK_SELECTOR = "p, li, td, th, dd, dt, blockquote, figcaption, caption, h1, h2, h3, h4, h5, h6";
+
+const collapseWhitespace = (value: string) => value.replace(/\s+/g, " ").trim();
+
+const truncate = (value: string, maxLength: number) =>
+  value.length > maxLength ? value.slice(0, maxLength - 1).trimEnd() + "…" : value;
+
+// Stops at the nearest id, which is usually enough to find the element
+const domPathOf = ($: CheerioAPI, element: Selection): string => {
+  const parts: string[] = [];
+
+  for (const node of [element.get(0), ...element.parents().toArray()]) {
+    const $node = $(node);
+    const tag = String($node.prop("tagName")).toLowerCase();
+    if (tag === "html") break;
+
+    const id = $node.attr("id");
+    if (id) {
+      parts.unshift(`${tag}#${id}`);
+      break;
+    }
+
+    const sameTagSiblings = $node.siblings(tag).length;
+    parts.unshift(sameTagSiblings > 0 ? `${tag}:nth-of-type(${$node.prevAll(tag).length + 1})` : tag);
+  }
+
+  return parts.join(" > ");
+};
+
+// The sentence containing the link text, from the closest block of text
+const snippetOf = (element: Selection, text: string): string | undefined => {
+  const block = element.closest(BLOCK_SELECTOR);
+  if (block.length === 0) return undefined;
+
+  const blockText = collapseWhitespace(block.text());
+  // A block holding nothing but the link (a list of links, say) adds no context
+  if (blockText === text) return undefined;
+  const index = text ? blockText.indexOf(text) : -1;
+  if (index < 0) return truncate(blockText, MAX_SNIPPET_LENGTH) || undefined;
+
+  const before = blockText.slice(0, index);
+  const after = blockText.slice(index + text.length);
+
+  // Last sentence break before the link text and the first one after it
+  let start = 0;
+  for (const match of before.matchAll(/[.!?]\s/g)) {
+    start = match.index + match[0].length;
+  }
+  const endMatch = /[.!?](\s|$)/.exec(after);
+  const end = endMatch ? endMatch.index + 1 : after.length;
+
+  const sentence = before.slice(start) + text + after.slice(0, end);
+  return truncate(sentence.trim(), MAX_SNIPPET_LENGTH);
+};
+
+// Landmarks, closest first, that say which part of the page a link is in
+const REGION_SELECTORS: [PageRegion, string][] = [
+  ["navigation", "nav, [role='navigation']"],
+  ["sidebar", "aside, [role='complementary']"],
+  ["header", "header, [role='banner']"],
+  ["footer", "footer, [role='contentinfo']"],
+];
+
+const isInside = (element: Selection, containers: Selection) => {
+  const nodes = new Set<unknown>(containers.toArray());
+  return [element.get(0), ...element.parents().toArray()].some(node => nodes.has(node));
+};
+
+const regionOf = (element: Selection, mainContent: Selection | null): PageRegion => {
+  if (element.closest("head").length > 0) return "head";
+  if (mainContent && isInside(element, mainContent)) return "main";
+
+  // The landmark nearest to the element wins, e.g. a nav inside the header
+  let region: PageRegion = "other";
+  let closestDepth = Infinity;
+  for (const [candidate, selector] of REGION_SELECTORS) {
+    const landmark = element.closest(selector);
+    if (landmark.length === 0) continue;
+
+    const depth = element.parents().toArray().findIndex(node => node === landmark.get(0));
+    if (depth < closestDepth) {
+      region = candidate;
+      closestDepth = depth;
+    }
+  }
+
+  // Without a detected article, a <main> landmark is the next best thing
+  if (region === "other" && element.closest("main, [role='main']").length > 0) return "main";
+  return region;
+};
+
+// Throws a readable error rather than cheerio's parser message
+const selectAll = ($: CheerioAPI, selectors: string): Selection => {
+  try {
+    return $(selectors);
+  } catch {
+    throw new Error(`"${selectors}" isn't a valid CSS selector`);
+  }
+};
+
+// "a.jpg 1x, b.jpg 2x" -> ["a.jpg", "b.jpg"]. Follows the HTML spec: a URL
+// runs until whitespace, so commas inside one (".../w_400,c_fill/a.jpg") are
+// kept, and only a comma after the descriptors starts the next candidate.
+const parseSrcset = (value: string) => {
+  const urls: string[] = [];
+  let position = 0;
+
+  while (position < value.length) {
+    // Separators between candidates
+    while (position < value.length && /[\s,]/.test(value[position])) position++;
+    if (position >= value.length) break;
+
+    const start = position;
+    while (position < value.length && !/\s/.test(value[position])) position++;
+    const url = value.slice(start, position);
+
+    // "a.jpg, b.jpg": a URL ending in commas has no descriptors
+    if (url.endsWith(",")) {
+      urls.push(url.replace(/,+$/, ""));
+      continue;
+    }
+    urls.push(url);
+
+    // Skip the descriptors; commas inside parentheses don't end them
+    let depth = 0;
+    while (position < value.length && (value[position] !== "," || depth > 0)) {
+      if (value[position] === "(") depth++;
+      if (value[position] === ")") depth = Math.max(0, depth - 1);
+      position++;
+    }
+  }
+
+  return urls.filter(Boolean);
+};
+
+// Only http(s) URLs can be checked; mailto:, tel:, data: and the like are
+// skipped, as are "#" and "#top", which always work
+const resolveUrl = (value: string, baseUrl: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === "#" || trimmed.toLowerCase() === "#top") return null;
+
+  try {
+    const resolved = new URL(trimmed, baseUrl);
+    return resolved.protocol === "http:" || resolved.protocol === "https:" ? resolved.toString() : null;
+  } catch (e) {
+    console.warn("Skipping invalid URL:", trimmed);
+    return null;
+  }
+};
+
+// Like a browser: the first <base href> wins, itself resolved against the
+// document's URL, and a broken one is ignored
+const baseUrlOf = ($: CheerioAPI, documentUrl: string) => {
+  const href = $("base[href]").first().attr("href");
+  if (!href) return documentUrl;
+
+  try {
+    return new URL(href.trim(), documentUrl).toString();
+  } catch {
+    return documentUrl;
+  }
+};
+
+// Every checkable URL on the page, in order of first appearance, with the
+// elements it was found on. documentUrl is where the page was actually
+// served from, after any redirects.
+export const extractLinks = (
+  html: string,
+  documentUrl: string,
+  scope: ExtractionScope = DEFAULT_EXTRACTION_SCOPE
+): ExtractedLink[] => {
+  const links = new Map<string, ExtractedLink>();
+  let baseUrl = documentUrl;
+
+  const add = (value: string, occurrence: Omit<LinkOccurrence, "url">) => {
+    const url = resolveUrl(value, baseUrl);
+    if (!url) return;
+
+    const link = links.get(url) ?? { url, occurrences: [] };
+    link.occurrences.push({ url, ...occurrence });
+    links.set(url, link);
+  };
+
+  let $: CheerioAPI | null = null;
+  try {
+    // Parse with cheerio so extraction works the same in the browser and on the server
+    $ = load(html);
+  } catch (e) {
+    // Fallback to regex if DOM parsing fails
+    console.log("DOM parsing failed, falling back to regex");
+    const hrefRegex = /href=["']((?:(?:https?|ftp):\/\/|\/)[^"'\s>]+)["']/gi;
+    let match;
+
+    while ((match = hrefRegex.exec(html)) !== null) {
+      add(match[1], { kind: "link", tag: "a", attribute: "href", domPath: "a", region: "other" });
+    }
+  }
+
+  if ($) {
+    baseUrl = baseUrlOf($, documentUrl);
+
+    const mainContent = findMainContent($);
+    const included = scope.include.trim() ? selectAll($, scope.include) : null;
+    const excluded = scope.exclude.trim() ? selectAll($, scope.exclude) : null;
+
+    if (scope.articleOnly && !mainContent) {
+      throw new Error("Couldn't find the article content on this page. Turn off \"Article content only\" or pick the content with a selector.");
+    }
+
+    const inScope = (element: Selection) =>
+      (!scope.articleOnly || isInside(element, mainContent)) &&
+      (!included || isInside(element, included)) &&
+      (!excluded || !isInside(element, excluded));
+
+    // Walk the document in order, so links keep the order they appear on the page
+    const selector = URL_SOURCES.map(source => source.selector).join(", ");
+    $(selector).each((_, node) => {
+      const element = $(node);
+      if (!inScope(element)) return;
+
+      const region = regionOf(element, mainContent);
+      const tag = String(element.prop("tagName")).toLowerCase();
+      const text = truncate(
+        // Image links have no text of their own, so fall back to the image's alt
+        collapseWhitespace(element.text() || element.attr("alt") || element.find("img[alt]").attr("alt") || element.attr("title") || ""),
+        MAX_TEXT_LENGTH
+      );
+      const rel = (element.attr("rel") || "").split(/\s+/).filter(Boolean);
+      const target = element.attr("target");
+      const domPath = domPathOf($, element);
+      const snippet = snippetOf(element, text);
+
+      URL_SOURCES.forEach(source => {
+        if (!element.is(source.selector)) return;
+
+        const value = element.attr(source.attribute);
+        const values = source.srcset ? parseSrcset(value) : [value];
+        values.forEach(url => add(url, {
+          kind: source.kind,
+          tag,
+          attribute: source.attribute,
+          text: text || undefined,
+          rel: rel.length > 0 ? rel : undefined,
+          target,
+          domPath,
+          snippet,
+          region,
+        }));
+      });
+    });
+  }
+
+  return [...links.values()];
+};
@@ -0,0 +1,121 @@
+import { IssueCategory, IssueSeverity, LinkIssue, LinkProbe } from "@/types/linkTypes";
+import { FetchTransport } from "@/services/transports";
+
+export const ISSUE_CATEGORIES: Record<IssueCategory, { label: string; severity: IssueSeverity }> = {
+  dns: { label: "Domain not found", severity: "broken" },
+  tls: { label: "Certificate problem", severity: "warning" },
+  timeout: { label: "Timed out", severity: "warning" },
+  connection: { label: "Connection refused", severity: "broken" },
+  http4xx: { label: "Client error (4xx)", severity: "broken" },
+  http5xx: { label: "Server error (5xx)", severity: "warning" },
+  rate_limited: { label: "Rate limited", severity: "unverified" },
+  blocked_by_bot_protection: { label: "Blocked by bot protection", severity: "unverified" },
+  proxy_failure: { label: "Proxy failure", severity: "unverified" },
+  network: { label: "Network error", severity: "unverified" },
+  redirect_loop: { label: "Redirect loop", severity: "broken" },
+  too_many_redirects: { label: "Too many redirects", severity: "broken" },
+  invalid_url: { label: "Invalid URL", severity: "broken" },
+  soft404: { label: "Soft 404", severity: "broken" },
+  missing_anchor: { label: "Missing anchor", severity: "warning" },
+  unknown: { label: "Unknown error", severity: "unverified" },
+};
+
+export const SEVERITY_LABELS: Record<IssueSeverity, string> = {
+  broken: "Broken",
+  warning: "Warning",
+  unverified: "Unverified",
+};
+
+export const PROBE_LABELS: Record<LinkProbe, string> = {
+  head: "HEAD",
+  range: "Ranged GET",
+  get: "GET",
+};
+
+export const createIssue = (category: IssueCategory, message: string, severity?: IssueSeverity): LinkIssue => ({
+  category,
+  severity: severity || ISSUE_CATEGORIES[category].severity,
+  message,
+});
+
+// Headers that bot-protection and CDN firewalls leave on their challenge pages
+const BOT_PROTECTION_HEADERS = ["cf-mitigated", "cf-chl-bypass", "x-datadome", "x-sucuri-block", "x-px-blocked"];
+
+const looksLikeBotProtection = (response: Response) => {
+  if (BOT_PROTECTION_HEADERS.some(header => response.headers.has(header))) {
+    return true;
+  }
+
+  // Cloudflare and Akamai answer challenges with 403/503 from their own edge
+  const server = response.headers.get("server") || "";
+  return (response.status === 403 || response.status === 503) && /cloudflare|akamaighost|ddos-guard/i.test(server);
+};
+
+// Turn an HTTP response into an issue, or undefined when it's a success
+export const classifyResponse = (response: Response, transport: FetchTransport): LinkIssue | undefined => {
+  const { status, statusText } = response;
+  const message = `${status} ${statusText}`.trim();
+
+  if (status >= 200 && status < 300) {
+    return undefined;
+  }
+
+  // LinkedIn's "request denied" status
+  if (status === 999 || looksLikeBotProtection(response)) {
+    return createIssue("blocked_by_bot_protection", message);
+  }
+  if (status === 429) {
+    return createIssue("rate_limited", message);
+  }
+  if (status >= 500) {
+    return createIssue("http5xx", message);
+  }
+  if (status >= 400) {
+    // Gone for good vs. "we won't show you": only 404/410 prove the page is dead
+    return createIssue("http4xx", message, status === 404 || status === 410 ? "broken" : "warning");
+  }
+  if (transport.kind === "proxy" && status === 0) {
+    return createIssue("proxy_failure", "The proxy returned no response");
+  }
+
+  return createIssue("unknown", message || "Unexpected response");
+};
+
+const errorCode = (error: Error & { code?: string; cause?: { code?: string } }) =>
+  error.code || error.cause?.code || "";
+
+const DNS_CODES = ["ENOTFOUND", "EAI_AGAIN"];
+const CONNECTION_CODES = ["ECONNREFUSED", "ECONNRESET", "EHOSTUNREACH", "ENETUNREACH"];
+const TIMEOUT_CODES = ["ETIMEDOUT", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_HEADERS_TIMEOUT"];
+
+// Turn a thrown fetch error into an issue. Node reports precise error codes;
+// browsers only say "Failed to fetch", which can mean anything from a dead
+// domain to CORS, so those stay unverified.
+export const classifyError = (error: unknown, transport: FetchTransport): LinkIssue => {
+  if (!(error instanceof Error)) {
+    return createIssue("unknown", "Connection failed");
+  }
+
+  const code = errorCode(error);
+
+  if (error.name === "AbortError" || error.name === "TimeoutError" || TIMEOUT_CODES.includes(code)) {
+    return createIssue("timeout", "Request timeout");
+  }
+  if (DNS_CODES.includes(code)) {
+    return createIssue("dns", `Domain could not be resolved (${code})`);
+  }
+  if (CONNECTION_CODES.includes(code)) {
+    return createIssue("connection", `Connection failed (${code})`);
+  }
+  if (/CERT|SSL|TLS/i.test(code)) {
+    return createIssue("tls", `TLS error (${code})`);
+  }
+  if (transport.kind === "proxy") {
+    return createIssue("proxy_failure", error.message);
+  }
+  if (error.name === "TypeError") {
+    return createIssue("network", error.message);
+  }
+
+  return createIssue("unknown", error.message);
+};
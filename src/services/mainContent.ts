@@ -0,0 +1,74 @@
+import { CheerioAPI } from "cheerio";
+
+type Selection = ReturnType<CheerioAPI>;
+
+// Class and id fragments that tell article bodies apart from page furniture,
+// the same hints Readability relies on
+const POSITIVE_HINTS = /article|body|content|entry|main|page|post|text|blog|story/i;
+const NEGATIVE_HINTS = /comment|footer|footnote|masthead|meta|nav|promo|related|share|sidebar|sponsor|social|widget|menu|banner|\bads?\b|newsletter|subscribe/i;
+
+// Paragraphs shorter than this are captions, bylines and the like
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const hintScore = (element: Selection) => {
+  const hints = `${element.attr("class") || ""} ${element.attr("id") || ""}`;
+  let score = 0;
+  if (POSITIVE_HINTS.test(hints)) score += 25;
+  if (NEGATIVE_HINTS.test(hints)) score -= 25;
+  return score;
+};
+
+// Share of an element's text that sits inside links; navigation is mostly links
+const linkDensity = ($: CheerioAPI, element: Selection) => {
+  const textLength = element.text().length;
+  if (textLength === 0) return 0;
+  const linkLength = element.find("a").toArray().reduce((total, anchor) => total + $(anchor).text().length, 0);
+  return linkLength / textLength;
+};
+
+// Finds the element holding the article body. Publishers that mark it up get
+// an exact answer; otherwise paragraphs are scored Readability-style and
+// their scores passed up to the containers, so the container with the most
+// prose and the fewest links wins. Returns null for pages without much prose.
+export const findMainContent = ($: CheerioAPI): Selection | null => {
+  const marked = $("[itemprop='articleBody']").first();
+  if (marked.length > 0) return marked;
+
+  const scores = new Map<unknown, { element: Selection; score: number }>();
+
+  const addScore = (element: Selection, score: number) => {
+    const node = element.get(0);
+    if (!node) return;
+
+    if (!scores.has(node)) {
+      const tag = String(element.prop("tagName")).toLowerCase();
+      const tagBonus = tag === "article" || tag === "main" ? 25 : 0;
+      scores.set(node, { element, score: hintScore(element) + tagBonus });
+    }
+    scores.get(node).score += score;
+  };
+
+  $("p, pre, td, blockquote").each((_, node) => {
+    const paragraph = $(node);
+    const text = paragraph.text().replace(/\s+/g, " ").trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    // One point, plus one per comma, plus one per 100 characters (up to 3)
+    const score = text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+    addScore(paragraph.parent(), score);
+    addScore(paragraph.parent().parent(), score / 2);
+  });
+
+  let best: { element: Selection; score: number } | null = null;
+  for (const candidate of scores.values()) {
+    const tag = String(candidate.element.prop("tagName")).toLowerCase();
+    if (tag === "body" || tag === "html") continue;
+
+    const score = candidate.score * (1 - linkDensity($, candidate.element));
+    if (!best || score > best.score) {
+      best = { element: candidate.element, score };
+    }
+  }
+
+  return best && best.score > 10 ? best.element : null;
+};
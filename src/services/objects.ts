@@ -0,0 +1,4 @@
+// Whether `key` is one of the record's own keys. `in` also sees inherited
+// ones, so "constructor" or "toString" from an imported file would pass.
+export const isOwnKey = <T extends object>(record: T, key: unknown): key is keyof T =>
+  typeof key === "string" && Object.prototype.hasOwnProperty.call(record, key);
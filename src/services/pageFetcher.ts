@@ -0,0 +1,60 @@
+import { FetchTransport } from "@/services/transports";
+import { withTimeout } from "@/services/abort";
+
+// A page downloaded for a closer look, once its link is known to work
+export interface FetchedPage {
+  status: number;
+  // Where the page ended up, and whether it took a redirect to get there
+  url: string;
+  redirected: boolean;
+  html: string;
+}
+
+// Servers that leave out the content type are usually serving HTML
+export const isHtmlResponse = (response: Response) => {
+  const contentType = response.headers.get("content-type");
+  return !contentType || /html/i.test(contentType);
+};
+
+const wasRedirected = (response: Response) =>
+  response.redirected || response.type === "opaqueredirect" || (response.status >= 300 && response.status < 400);
+
+// Fetches pages in full for the soft 404 and anchor checks. Anything that
+// isn't HTML, or couldn't be fetched, comes back as null.
+export const createPageFetcher = (
+  transport: FetchTransport,
+  // Per URL, so logins only go to the sites they belong to
+  headersFor: (url: string) => Record<string, string>,
+  timeoutMs: number,
+  signal?: AbortSignal
+) => async (url: string, redirect: RequestRedirect = "follow"): Promise<FetchedPage | null> => {
+  const timeout = withTimeout(timeoutMs, signal);
+
+  try {
+    const response = await transport.fetch(url, {
+      method: "GET",
+      // Transports that can't hand back a redirect follow it instead
+      redirect: redirect === "manual" && !transport.manualRedirects ? "follow" : redirect,
+      signal: timeout.signal,
+      headers: headersFor(url),
+    });
+
+    if (!isHtmlResponse(response)) {
+      response.body?.cancel().catch(() => {});
+      return null;
+    }
+
+    return {
+      status: response.status,
+      url: response.url || url,
+      redirected: wasRedirected(response),
+      html: await response.text(),
+    };
+  } catch {
+    return null;
+  } finally {
+    timeout.clear();
+  }
+};
+
+export type PageFetcher = ReturnType<typeof createPageFetcher>;
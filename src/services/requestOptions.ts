@@ -0,0 +1,89 @@
+// How requests to the page and its links look: how long we wait for them and
+// which headers they carry. Browsers drop User-Agent (and a few other headers)
+// on their own fetches, so those only take effect through the checker backend.
+export type UserAgentProfile = "desktop" | "mobile" | "bot";
+
+export interface RequestOptions {
+  pageTimeoutMs: number;
+  linkTimeoutMs: number;
+  userAgent: UserAgentProfile;
+  // Sent with every request, after the User-Agent so they can replace it
+  headers: Record<string, string>;
+}
+
+export const USER_AGENT_PROFILES: Record<UserAgentProfile, { label: string; userAgent: string }> = {
+  desktop: {
+    label: "Desktop browser",
+    userAgent: "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36",
+  },
+  mobile: {
+    label: "Mobile browser",
+    userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1",
+  },
+  bot: {
+    label: "LinkScribe bot",
+    userAgent: "Mozilla/5.0 (compatible; LinkScribe/1.0)",
+  },
+};
+
+export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
+  pageTimeoutMs: 10000,
+  linkTimeoutMs: 8000,
+  userAgent: "bot",
+  headers: {},
+};
+
+// The longest a single request may be given
+export const MAX_TIMEOUT_MS = 60000;
+
+const MAX_HEADERS = 20;
+const MAX_HEADER_LENGTH = 2000;
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+// Headers the HTTP client manages itself; setting them breaks the request
+const RESERVED_HEADERS = new Set(["host", "content-length", "connection", "keep-alive", "transfer-encoding", "upgrade", "expect", "te", "trailer"]);
+
+// Keeps only headers that can be sent as they are
+export const sanitizeHeaders = (input: unknown): Record<string, string> => {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+
+  const entries = Object.entries(input as Record<string, unknown>)
+    .filter(([name, value]) =>
+      HEADER_NAME.test(name) &&
+      !RESERVED_HEADERS.has(name.toLowerCase()) &&
+      typeof value === "string" &&
+      value.length <= MAX_HEADER_LENGTH &&
+      !/[\r\n]/.test(value)
+    )
+    .slice(0, MAX_HEADERS);
+
+  return Object.fromEntries(entries) as Record<string, string>;
+};
+
+// "Name: value" lines, as typed into the settings panel. Lines that aren't
+// valid headers are skipped.
+export const parseHeaderLines = (text: string): Record<string, string> =>
+  sanitizeHeaders(Object.fromEntries(
+    text.split("\n").flatMap(line => {
+      const separator = line.indexOf(":");
+      if (separator < 1) return [];
+      return [[line.slice(0, separator).trim(), line.slice(separator + 1).trim()]];
+    })
+  ));
+
+export const formatHeaderLines = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join("\n");
+
+// The headers for one request, optionally asking for a particular content
+// type. Custom headers replace ours whatever their case.
+export const buildRequestHeaders = (options: RequestOptions, accept?: string): Record<string, string> => {
+  const defaults: Record<string, string> = {
+    ...(accept && { Accept: accept }),
+    "User-Agent": USER_AGENT_PROFILES[options.userAgent].userAgent,
+  };
+  const custom = new Set(Object.keys(options.headers).map(name => name.toLowerCase()));
+
+  return {
+    ...Object.fromEntries(Object.entries(defaults).filter(([name]) => !custom.has(name.toLowerCase()))),
+    ...options.headers,
+  };
+};
@@ -0,0 +1,78 @@
+import { LinkCheckResult } from "@/types/linkTypes";
+
+// One link's answer, as kept between checks
+export interface CachedResult {
+  result: LinkCheckResult;
+  checkedAt: number;
+}
+
+// Where answers are kept between checks, keyed by normalized URL: IndexedDB
+// in the browser, a file on the server. Stores decide nothing about
+// freshness; the checker compares checkedAt with its TTL.
+export interface ResultCache {
+  get: (key: string) => Promise<CachedResult | null>;
+  set: (key: string, entry: CachedResult) => Promise<void>;
+}
+
+// For when nothing can be persisted, e.g. private browsing without IndexedDB
+export const createMemoryResultCache = (): ResultCache => {
+  const entries = new Map<string, CachedResult>();
+
+  return {
+    get: async key => entries.get(key) ?? null,
+    set: async (key, entry) => {
+      entries.set(key, entry);
+    },
+  };
+};
+
+const DB_NAME = "linkscribe";
+const STORE_NAME = "link-results";
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Keeps answers in IndexedDB, shared by every tab. A cache that can't be
+// read or written behaves as empty rather than failing the check.
+export const createIndexedDbResultCache = (): ResultCache => {
+  if (typeof indexedDB === "undefined") {
+    return createMemoryResultCache();
+  }
+
+  let database: Promise<IDBDatabase> | null = null;
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    if (!database) {
+      database = openDatabase();
+    }
+    const store = (await database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+    return new Promise<T>((resolve, reject) => {
+      const request = action(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    get: async key => {
+      try {
+        return (await run<CachedResult | undefined>("readonly", store => store.get(key))) ?? null;
+      } catch {
+        return null;
+      }
+    },
+    set: async (key, entry) => {
+      try {
+        await run("readwrite", store => store.put(entry, key));
+      } catch {
+        // Not being able to cache only costs a request next time
+      }
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import { LinkIssue } from "@/types/linkTypes";
+
+export interface RetryOptions {
+  // Extra attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A Retry-After asking us to wait longer than this means giving up instead
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+};
+
+// Only failures that often clear up on their own are worth another attempt
+export const isRetryable = (issue: LinkIssue | undefined) =>
+  issue?.category === "timeout" || issue?.category === "http5xx" || issue?.category === "rate_limited";
+
+// Exponential backoff with "equal jitter": half the delay is fixed, half random,
+// so parallel checks against the same host don't retry in lockstep
+export const backoffDelay = (attempt: number, options: RetryOptions) => {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Resolves after `ms`, or straight away once `signal` aborts
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const onAbort = () => {
+    clearTimeout(timeoutId);
+    resolve();
+  };
+  // The signal lives as long as the whole check, so don't leave a listener on it per retry
+  const timeoutId = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
@@ -0,0 +1,100 @@
+export interface SchedulerOptions {
+  // Checks running at once across all hosts
+  concurrency: number;
+  // Checks running at once against a single host
+  perHostConcurrency: number;
+  // Minimum gap between starting two checks against the same host
+  perHostDelayMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 6,
+  perHostConcurrency: 2,
+  perHostDelayMs: 250,
+};
+
+interface QueuedTask {
+  host: string;
+  run: () => Promise<void>;
+}
+
+interface HostState {
+  active: number;
+  lastStartedAt: number;
+}
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return "";
+  }
+};
+
+// Runs tasks as soon as both the global and the per-host limits allow, so a
+// page linking to many different sites goes fast while a page with twenty
+// links to one site doesn't hammer it.
+export const createHostScheduler = (options: SchedulerOptions) => {
+  const queue: QueuedTask[] = [];
+  const hosts = new Map<string, HostState>();
+  let active = 0;
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const hostState = (host: string) => {
+    if (!hosts.has(host)) {
+      hosts.set(host, { active: 0, lastStartedAt: -Infinity });
+    }
+    return hosts.get(host);
+  };
+
+  const pump = () => {
+    const now = Date.now();
+    let nextWakeAt = Infinity;
+
+    for (let i = 0; i < queue.length && active < options.concurrency; i++) {
+      const task = queue[i];
+      const state = hostState(task.host);
+
+      if (state.active >= options.perHostConcurrency) {
+        continue;
+      }
+
+      const readyAt = state.lastStartedAt + options.perHostDelayMs;
+      if (readyAt > now) {
+        nextWakeAt = Math.min(nextWakeAt, readyAt);
+        continue;
+      }
+
+      queue.splice(i, 1);
+      i--;
+      active++;
+      state.active++;
+      state.lastStartedAt = now;
+
+      task.run().finally(() => {
+        active--;
+        state.active--;
+        pump();
+      });
+    }
+
+    // Some hosts are only waiting out their delay; come back when the first is ready
+    if (nextWakeAt !== Infinity && !wakeTimer) {
+      wakeTimer = setTimeout(() => {
+        wakeTimer = null;
+        pump();
+      }, nextWakeAt - now);
+    }
+  };
+
+  const schedule = <T>(url: string, task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push({
+        host: hostOf(url),
+        run: () => task().then(resolve, reject),
+      });
+      pump();
+    });
+
+  return { schedule };
+};
@@ -0,0 +1,93 @@
+import { DEFAULT_RETRY_OPTIONS, RetryOptions } from "@/services/retry";
+import { DEFAULT_SCHEDULER_OPTIONS, SchedulerOptions } from "@/services/scheduler";
+import { DEFAULT_EXTRACTION_SCOPE, ExtractionScope } from "@/services/linkExtractor";
+import { DEFAULT_NORMALIZE_OPTIONS, NormalizeOptions } from "@/services/urlNormalizer";
+import { CACHE_BUSTING_STRATEGIES, CacheBusting } from "@/services/cacheBusting";
+import { DEFAULT_CACHE_TTL_MINUTES, DEFAULT_SLOW_THRESHOLD_MS } from "@/services/linkChecker";
+import {
+  DEFAULT_REQUEST_OPTIONS,
+  MAX_TIMEOUT_MS,
+  RequestOptions,
+  USER_AGENT_PROFILES,
+  sanitizeHeaders,
+} from "@/services/requestOptions";
+import { isOwnKey } from "@/services/objects";
+
+// The user-tunable part of a check. Plain data, so it can be saved locally
+// and sent to the checker backend as-is.
+export interface CheckSettings {
+  retry: RetryOptions;
+  scheduling: SchedulerOptions;
+  // null checks every link on the page
+  maxLinks: number | null;
+  scope: ExtractionScope;
+  normalization: NormalizeOptions;
+  cacheBusting: CacheBusting;
+  slowThresholdMs: number;
+  requests: RequestOptions;
+  // How long a link's answer is reused by later checks; 0 always checks afresh
+  cacheTtlMinutes: number;
+}
+
+export const DEFAULT_CHECK_SETTINGS: CheckSettings = {
+  retry: DEFAULT_RETRY_OPTIONS,
+  scheduling: DEFAULT_SCHEDULER_OPTIONS,
+  maxLinks: null,
+  scope: DEFAULT_EXTRACTION_SCOPE,
+  normalization: DEFAULT_NORMALIZE_OPTIONS,
+  cacheBusting: "none",
+  slowThresholdMs: DEFAULT_SLOW_THRESHOLD_MS,
+  requests: DEFAULT_REQUEST_OPTIONS,
+  cacheTtlMinutes: DEFAULT_CACHE_TTL_MINUTES,
+};
+
+const MAX_SELECTOR_LENGTH = 500;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+};
+
+// Fill in defaults and keep every number within sane bounds. Used for saved
+// settings and for whatever a client sends to the backend.
+export const sanitizeSettings = (input: Partial<CheckSettings> | undefined): CheckSettings => {
+  const retry = { ...DEFAULT_RETRY_OPTIONS, ...input?.retry };
+  const scheduling = { ...DEFAULT_SCHEDULER_OPTIONS, ...input?.scheduling };
+  const scope = { ...DEFAULT_EXTRACTION_SCOPE, ...input?.scope };
+  const normalization = { ...DEFAULT_NORMALIZE_OPTIONS, ...input?.normalization };
+  const requests = { ...DEFAULT_REQUEST_OPTIONS, ...input?.requests };
+
+  return {
+    retry: {
+      retries: clamp(retry.retries, 0, 5, DEFAULT_RETRY_OPTIONS.retries),
+      baseDelayMs: clamp(retry.baseDelayMs, 0, 10000, DEFAULT_RETRY_OPTIONS.baseDelayMs),
+      maxDelayMs: clamp(retry.maxDelayMs, 0, 60000, DEFAULT_RETRY_OPTIONS.maxDelayMs),
+      maxRetryAfterMs: clamp(retry.maxRetryAfterMs, 0, 120000, DEFAULT_RETRY_OPTIONS.maxRetryAfterMs),
+    },
+    scheduling: {
+      concurrency: clamp(scheduling.concurrency, 1, 32, DEFAULT_SCHEDULER_OPTIONS.concurrency),
+      perHostConcurrency: clamp(scheduling.perHostConcurrency, 1, 8, DEFAULT_SCHEDULER_OPTIONS.perHostConcurrency),
+      perHostDelayMs: clamp(scheduling.perHostDelayMs, 0, 10000, DEFAULT_SCHEDULER_OPTIONS.perHostDelayMs),
+    },
+    maxLinks: input?.maxLinks ? clamp(Math.floor(input.maxLinks), 1, Number.MAX_SAFE_INTEGER, null) : null,
+    scope: {
+      articleOnly: scope.articleOnly === true,
+      include: String(scope.include ?? "").slice(0, MAX_SELECTOR_LENGTH),
+      exclude: String(scope.exclude ?? "").slice(0, MAX_SELECTOR_LENGTH),
+    },
+    normalization: {
+      ignoreTrailingSlash: Boolean(normalization.ignoreTrailingSlash),
+      stripTrackingParams: Boolean(normalization.stripTrackingParams),
+      ignoreFragment: Boolean(normalization.ignoreFragment),
+    },
+    cacheBusting: isOwnKey(CACHE_BUSTING_STRATEGIES, input?.cacheBusting) ? input.cacheBusting : "none",
+    slowThresholdMs: clamp(input?.slowThresholdMs, 100, 60000, DEFAULT_SLOW_THRESHOLD_MS),
+    requests: {
+      pageTimeoutMs: clamp(requests.pageTimeoutMs, 1000, MAX_TIMEOUT_MS, DEFAULT_REQUEST_OPTIONS.pageTimeoutMs),
+      linkTimeoutMs: clamp(requests.linkTimeoutMs, 1000, MAX_TIMEOUT_MS, DEFAULT_REQUEST_OPTIONS.linkTimeoutMs),
+      userAgent: isOwnKey(USER_AGENT_PROFILES, requests.userAgent) ? requests.userAgent : DEFAULT_REQUEST_OPTIONS.userAgent,
+      headers: sanitizeHeaders(requests.headers),
+    },
+    cacheTtlMinutes: clamp(input?.cacheTtlMinutes, 0, 7 * 24 * 60, DEFAULT_CACHE_TTL_MINUTES),
+  };
+};
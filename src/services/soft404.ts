@@ -0,0 +1,119 @@
+import { RedirectHop } from "@/types/linkTypes";
+import { FetchedPage, PageFetcher } from "@/services/pageFetcher";
+import { load } from "cheerio";
+
+// Phrases news and CMS templates use on "page not found" pages
+const NOT_FOUND_PATTERNS = [
+  /page not found/i,
+  /\bnot found\b/i,
+  /\b404\b/i,
+  /no longer (?:available|exists)/i,
+  /(?:does not|doesn't) exist/i,
+  /(?:can't|cannot|could not|couldn't) (?:be )?f(?:ou|i)nd/i,
+  /page (?:is )?unavailable/i,
+  /has been (?:removed|deleted)/i,
+  /nothing (?:was )?found/i,
+];
+
+// Pages with less visible text than this are usually error or placeholder templates
+const TINY_BODY_CHARS = 300;
+
+// How close in size a page has to be to the random-path probe to count as the same template
+const TEMPLATE_LENGTH_TOLERANCE = 0.1;
+
+interface PageSummary {
+  status: number;
+  // Where the page ended up, and whether it took a redirect to get there
+  url: string;
+  redirected: boolean;
+  title: string;
+  heading: string;
+  textLength: number;
+}
+
+const summarizePage = ({ status, url, redirected, html }: FetchedPage): PageSummary => {
+  const $ = load(html);
+  return {
+    status,
+    url,
+    redirected,
+    title: $("title").first().text().trim(),
+    heading: $("h1").first().text().trim(),
+    textLength: $("body").text().replace(/\s+/g, " ").trim().length,
+  };
+};
+
+const isRootPath = (url: string) => {
+  const { pathname } = new URL(url);
+  return pathname === "/" || pathname === "";
+};
+
+// Detects pages that answer 200 but are really gone. The detector keeps one
+// random-path probe per host, so the comparison costs a single extra request
+// per site rather than one per link.
+export const createSoft404Detector = (fetchPage: PageFetcher) => {
+  const probes = new Map<string, Promise<PageSummary | null>>();
+
+  const probeHost = (url: string) => {
+    const { origin } = new URL(url);
+
+    if (!probes.has(origin)) {
+      const randomPath = `/${Math.random().toString(36).slice(2)}-linkscribe-missing-page`;
+      // Not followed where we can help it: a redirect already tells us the
+      // made-up path isn't served as a page of its own
+      probes.set(origin, fetchPage(`${origin}${randomPath}`, "manual").then(page => page && summarizePage(page)));
+    }
+
+    return probes.get(origin);
+  };
+
+  // Returns the reasons a working link looks like a soft 404, or an empty list.
+  // `fetched` is null when the link isn't an HTML page or couldn't be downloaded.
+  const detect = async (url: string, finalUrl: string, redirects: RedirectHop[], fetched: FetchedPage | null): Promise<string[]> => {
+    const reasons: string[] = [];
+
+    if (redirects.length > 0 && isRootPath(finalUrl) && !isRootPath(url)) {
+      reasons.push("Redirects to the site's home page");
+    }
+
+    if (!fetched) return reasons;
+    const page = summarizePage(fetched);
+
+    const notFoundText = [page.title, page.heading].find(text => NOT_FOUND_PATTERNS.some(pattern => pattern.test(text)));
+    if (notFoundText) {
+      reasons.push(`Page says "${notFoundText.slice(0, 80)}"`);
+    }
+
+    // Looking like a made-up page is never enough on its own: hosts that send
+    // unknown paths to the home page, and single-page apps that serve the
+    // same HTML everywhere, would have every working page flagged
+    if (reasons.length === 0) return reasons;
+
+    // A site that answers a made-up path with the same page serves its
+    // not-found template with a 200
+    const probe = await probeHost(finalUrl);
+    if (probe && !probe.redirected && probe.url !== page.url && probe.status >= 200 && probe.status < 300) {
+      const sameTitle = probe.title === page.title;
+      const sizeDifference = Math.abs(probe.textLength - page.textLength) / Math.max(probe.textLength, page.textLength, 1);
+
+      if (sameTitle && sizeDifference <= TEMPLATE_LENGTH_TOLERANCE) {
+        reasons.push("Looks the same as a made-up page on this site");
+      }
+    }
+
+    // A short page is only telling alongside one of the signals above
+    if (page.textLength < TINY_BODY_CHARS) {
+      reasons.push("Page has almost no content");
+    }
+
+    // Nor is a "not found" title or heading: news headlines say "not found",
+    // "404" or "has been removed" too
+    if (notFoundText && reasons.length === 1) return [];
+
+    return reasons;
+  };
+
+  return { detect };
+};
+
+export type Soft404Detector = ReturnType<typeof createSoft404Detector>;
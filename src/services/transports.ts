@@ -0,0 +1,176 @@
+// A transport decides how the checker reaches the network. Swapping it lets
+// us go direct, through a prefix-style CORS proxy, through our own backend,
+// or answer from recorded fixtures without touching the checking logic.
+export interface FetchTransport {
+  name: string;
+  kind: TransportConfig["kind"];
+  // Whether `redirect: "manual"` hands back the 3xx response itself, letting
+  // the checker record each hop of a redirect chain
+  manualRedirects: boolean;
+  // Whether saved logins can go out with the requests. Proxies are run by third
+  // parties, and browsers drop Cookie headers and preflight Authorization on
+  // cross-origin fetches, which most sites refuse.
+  sendsCredentials: boolean;
+  fetch: (url: string, init?: TransportRequestInit) => Promise<Response>;
+}
+
+export interface TransportRequestInit extends RequestInit {
+  // The caller only reads the status and headers. Transports that relay the
+  // response can leave the body behind instead of downloading it.
+  headersOnly?: boolean;
+}
+
+export interface FixtureResponse {
+  status: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export type TransportConfig =
+  | { kind: "direct" }
+  | { kind: "proxy"; prefix: string }
+  | { kind: "backend"; endpoint: string }
+  | { kind: "fixtures"; fixtures: Record<string, FixtureResponse> };
+
+// Public CORS proxies, kept only as the last-resort default
+export const PUBLIC_PROXY_PREFIXES = [
+  "https://api.allorigins.win/raw?url=",
+  "https://corsproxy.io/?",
+  "https://cors-anywhere.herokuapp.com/"
+];
+
+// Node's fetch sends whatever headers it's given; a browser's (page or worker) doesn't
+const isNode = () =>
+  typeof (globalThis as { process?: { versions?: { node?: string } } }).process?.versions?.node === "string";
+
+// Statuses for which the Response constructor rejects any body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+// Build a Response for a status we received second-hand. The constructor only
+// accepts 200-599, so non-standard codes such as LinkedIn's 999 are patched
+// onto the instance afterwards.
+const createResponse = (status: number, statusText: string | undefined, headers: Record<string, string> | undefined, body: string | null | undefined) => {
+  const isStandard = status >= 200 && status <= 599;
+  const response = new Response(NULL_BODY_STATUSES.includes(status) ? null : body ?? null, {
+    status: isStandard ? status : 599,
+    statusText,
+    headers,
+  });
+
+  if (!isStandard) {
+    Object.defineProperty(response, "status", { value: status });
+    Object.defineProperty(response, "ok", { value: false });
+  }
+
+  return response;
+};
+
+export const createDirectTransport = (): FetchTransport => ({
+  name: "direct",
+  kind: "direct",
+  manualRedirects: true,
+  sendsCredentials: isNode(),
+  fetch: (url, init) => fetch(url, init),
+});
+
+export const createProxyTransport = (prefix: string): FetchTransport => ({
+  name: `proxy:${prefix}`,
+  kind: "proxy",
+  manualRedirects: false,
+  sendsCredentials: false,
+  fetch: (url, init) => fetch(`${prefix}${encodeURIComponent(url)}`, init),
+});
+
+// Talks to a self-hosted fetch endpoint. The backend performs the request and
+// answers with JSON describing the upstream response, so statuses and headers
+// reach us untouched by the browser's CORS rules.
+export const createBackendTransport = (endpoint: string): FetchTransport => ({
+  name: `backend:${endpoint}`,
+  kind: "backend",
+  manualRedirects: true,
+  sendsCredentials: true,
+  fetch: async (url, init = {}) => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      signal: init.signal,
+      body: JSON.stringify({
+        url,
+        method: init.method || "GET",
+        headers: init.headers ? Object.fromEntries(new Headers(init.headers).entries()) : {},
+        redirect: init.redirect || "follow",
+        headersOnly: init.headersOnly === true,
+      }),
+    });
+
+    const payload = await response.json();
+
+    if (payload.error) {
+      const error = new Error(payload.error.message) as Error & { code?: string };
+      error.name = payload.error.name || "Error";
+      error.code = payload.error.code;
+      throw error;
+    }
+
+    return createResponse(payload.status, payload.statusText, payload.headers, payload.body);
+  },
+});
+
+// Replays canned responses, useful for demos and reproducing reports offline
+export const createFixtureTransport = (fixtures: Record<string, FixtureResponse>): FetchTransport => ({
+  name: "fixtures",
+  kind: "fixtures",
+  manualRedirects: true,
+  sendsCredentials: false,
+  fetch: async (url, init = {}) => {
+    const fixture = fixtures[url];
+
+    if (!fixture) {
+      throw new TypeError(`No fixture recorded for ${url}`);
+    }
+
+    return createResponse(fixture.status, fixture.statusText, fixture.headers, init.method === "HEAD" ? null : fixture.body ?? "");
+  },
+});
+
+export const createTransport = (config: TransportConfig): FetchTransport => {
+  switch (config.kind) {
+    case "direct":
+      return createDirectTransport();
+    case "proxy":
+      return createProxyTransport(config.prefix);
+    case "backend":
+      return createBackendTransport(config.endpoint);
+    case "fixtures":
+      return createFixtureTransport(config.fixtures);
+  }
+};
+
+// Parse a transport spec such as "direct", "proxy:https://proxy.example/?url="
+// or "backend:/api/fetch". Several specs can be chained with commas; they are
+// tried in order until one manages to fetch the page.
+export const parseTransportSpec = (spec: string | undefined): TransportConfig[] => {
+  if (!spec || !spec.trim()) {
+    return PUBLIC_PROXY_PREFIXES.map(prefix => ({ kind: "proxy", prefix }));
+  }
+
+  return spec.split(",").map(part => part.trim()).filter(Boolean).map((part): TransportConfig => {
+    if (part === "direct") {
+      return { kind: "direct" };
+    }
+
+    const separator = part.indexOf(":");
+    const kind = part.slice(0, separator);
+    const value = part.slice(separator + 1);
+
+    if (kind === "proxy" && value) {
+      return { kind: "proxy", prefix: value };
+    }
+    if (kind === "backend" && value) {
+      return { kind: "backend", endpoint: value };
+    }
+
+    throw new Error(`Unknown transport spec: ${part}`);
+  });
+};
@@ -0,0 +1,94 @@
+import { ExtractedLink } from "@/types/linkTypes";
+import { withoutFragment } from "@/services/anchors";
+
+// Which differences between URLs don't count, so variants of the same link
+// are checked once. Host case and default ports (:80, :443) are always
+// ignored; the URL parser normalizes those and servers can't tell them apart.
+export interface NormalizeOptions {
+  // "/a" and "/a/" are the same link
+  ignoreTrailingSlash: boolean;
+  // utm_source, fbclid and friends don't change the page
+  stripTrackingParams: boolean;
+  // "/a#one" and "/a#two" are the same link. Off by default, because each
+  // fragment is checked for a matching anchor.
+  ignoreFragment: boolean;
+}
+
+export const DEFAULT_NORMALIZE_OPTIONS: NormalizeOptions = {
+  ignoreTrailingSlash: true,
+  stripTrackingParams: true,
+  ignoreFragment: false,
+};
+
+const TRACKING_PARAM_PREFIXES = ["utm_", "mtm_", "pk_"];
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "twclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_hsenc",
+  "_hsmi",
+  "mkt_tok",
+  "ref_src",
+  "ref_url",
+]);
+
+const isTrackingParam = (name: string) => {
+  const lower = name.toLowerCase();
+  return TRACKING_PARAMS.has(lower) || TRACKING_PARAM_PREFIXES.some(prefix => lower.startsWith(prefix));
+};
+
+// The key variants of a URL share. Only used for grouping; the URL that gets
+// requested is always one the page actually links to.
+export const normalizeUrl = (url: string, options: NormalizeOptions = DEFAULT_NORMALIZE_OPTIONS): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  if (options.stripTrackingParams) {
+    [...parsed.searchParams.keys()].filter(isTrackingParam).forEach(name => parsed.searchParams.delete(name));
+    // URLSearchParams leaves a bare "?" behind when the last parameter goes
+    if (!parsed.searchParams.toString()) parsed.search = "";
+  }
+
+  if (options.ignoreTrailingSlash && parsed.pathname.length > 1 && parsed.pathname.endsWith("/")) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+  }
+
+  if (options.ignoreFragment) {
+    parsed.hash = "";
+  }
+
+  return parsed.toString();
+};
+
+// Merges links whose URLs normalize to the same key. The first variant on the
+// page is the one checked, minus its fragment when fragments are ignored so no
+// anchor gets checked; every occurrence keeps the URL it was written with.
+export const groupLinkVariants = (links: ExtractedLink[], options: NormalizeOptions): ExtractedLink[] => {
+  const groups = new Map<string, ExtractedLink>();
+
+  links.forEach(link => {
+    const key = normalizeUrl(link.url, options);
+    const group = groups.get(key);
+
+    if (group) {
+      group.occurrences.push(...link.occurrences);
+    } else {
+      const url = options.ignoreFragment ? withoutFragment(link.url) : link.url;
+      groups.set(key, { url, occurrences: [...link.occurrences] });
+    }
+  });
+
+  return [...groups.values()];
+};
@@ -1,7 +1,147 @@
 
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string;
+}
+
+// What kind of element a URL was found on
+export type ResourceKind =
+  | "link"
+  | "image"
+  | "iframe"
+  | "media"
+  | "script"
+  | "stylesheet"
+  | "canonical"
+  | "alternate"
+  | "meta_image"
+  | "embed";
+
+// The part of the page a link sits in
+export type PageRegion = "main" | "header" | "navigation" | "sidebar" | "footer" | "head" | "other";
+
+export interface LinkOccurrence {
+  // The URL as written here, resolved; it can differ from the link's URL
+  // when variants (e.g. with tracking parameters) were checked together
+  url: string;
+  kind: ResourceKind;
+  // The element and attribute the URL came from, e.g. "img" / "srcset"
+  tag: string;
+  attribute: string;
+  // Anchor text, or the alt/title text of non-anchor elements
+  text?: string;
+  // rel tokens such as nofollow, sponsored or ugc
+  rel?: string[];
+  target?: string;
+  // CSS-like path to the element, e.g. "main > article > p:nth-of-type(3) > a"
+  domPath: string;
+  // The sentence around the link, to find it in the CMS
+  snippet?: string;
+  region: PageRegion;
+}
+
+// A unique URL on the page with every place it appears
+export interface ExtractedLink {
+  url: string;
+  occurrences: LinkOccurrence[];
+}
+
+export type IssueCategory =
+  | "dns"
+  | "tls"
+  | "timeout"
+  | "connection"
+  | "http4xx"
+  | "http5xx"
+  | "rate_limited"
+  | "blocked_by_bot_protection"
+  | "proxy_failure"
+  | "network"
+  | "redirect_loop"
+  | "too_many_redirects"
+  | "invalid_url"
+  | "soft404"
+  | "missing_anchor"
+  | "unknown";
+
+// broken: the link itself is dead. warning: it may be, worth a look.
+// unverified: our checker couldn't get an answer, so the link may be fine.
+export type IssueSeverity = "broken" | "warning" | "unverified";
+
+export interface LinkIssue {
+  category: IssueCategory;
+  severity: IssueSeverity;
+  message: string;
+}
+
+// The request that got a link's status: HEAD, a GET for the first byte only,
+// or a plain GET whose body is dropped once the headers arrive
+export type LinkProbe = "head" | "range" | "get";
+
+// How long a link took to answer, for the attempt that produced the result
+export interface LinkTiming {
+  // Until the first response headers arrived; absent when none did
+  ttfbMs?: number;
+  // The whole attempt, including following redirects and falling back from HEAD to GET
+  totalMs: number;
+}
+
 export interface LinkCheckResult {
   url: string;
-  isWorking: boolean;
-  statusCode?: number | string;
-  error?: string;
+  // The URL actually requested; differs from url when cache busting adds a parameter
+  requestedUrl?: string;
+  statusCode?: number;
+  // Absent when the link works
+  issue?: LinkIssue;
+  soft404Reasons?: string[];
+  // How many requests it took to get this answer, including retries
+  attempts?: number;
+  redirects?: RedirectHop[];
+  finalUrl?: string;
+  occurrences?: LinkOccurrence[];
+  timing?: LinkTiming;
+  // Took longer than the slow threshold to answer
+  slow?: boolean;
+  // Checked with one of the user's saved logins
+  authenticated?: boolean;
+  // Set when the answer came from the cache: when the link was really checked
+  cachedAt?: number;
+  probe?: LinkProbe;
 }
+
+export interface LinkCheckReport {
+  url: string;
+  // Where the page itself ended up, and how, when the submitted URL redirected
+  finalUrl?: string;
+  redirects?: RedirectHop[];
+  results: LinkCheckResult[];
+  // Unique links found on the page; more than results.length when a limit applied
+  totalLinks: number;
+  // Links left out by the user's ignore rules, not counted in totalLinks
+  ignoredLinks: number;
+  // Stopped by the user before every link was checked
+  cancelled: boolean;
+}
+
+export type CheckPhase = "fetching" | "extracting" | "checking" | "done";
+
+// Emitted while a check runs, so callers (the UI, the backend stream) can
+// report progress and show results as each link finishes
+export type CheckEvent =
+  | { type: "phase"; phase: CheckPhase }
+  // The page was fetched; links are resolved against finalUrl
+  | { type: "page"; finalUrl: string; redirects: RedirectHop[] }
+  // The links that will be checked; totalLinks counts those past the link limit too
+  | { type: "links"; links: string[]; totalLinks: number; ignoredLinks: number }
+  | { type: "link-start"; url: string }
+  | { type: "link-finish"; result: LinkCheckResult; completed: number; total: number }
+  // Something worth telling the user that doesn't stop the check
+  | { type: "warning"; message: string };
+
+// One line of the checker backend's NDJSON stream: the check's events, then
+// either the final report or an error
+export type CheckStreamMessage =
+  | CheckEvent
+  | { type: "report"; report: LinkCheckReport }
+  | { type: "error"; message: string };
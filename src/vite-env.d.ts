@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FETCH_TRANSPORT?: string;
+  readonly VITE_CHECKER_API?: string;
+}
@@ -0,0 +1,43 @@
+import { checkLinks } from "@/services/linkChecker";
+import { createTransport } from "@/services/transports";
+import { createIndexedDbResultCache } from "@/services/resultCache";
+import { WorkerCheckRequest, WorkerRequest, WorkerResponse } from "@/workers/protocol";
+
+// Fetches, parses and checks pages off the main thread, so big pages don't
+// freeze the UI. Progress goes back to the page as the check's own events.
+
+const resultCache = createIndexedDbResultCache();
+const running = new Map<string, AbortController>();
+
+const send = (message: WorkerResponse) => postMessage(message);
+
+const runCheck = async ({ id, url, settings, transports, ...options }: WorkerCheckRequest) => {
+  const controller = new AbortController();
+  running.set(id, controller);
+
+  try {
+    const report = await checkLinks(url, {
+      ...settings,
+      ...options,
+      transports: transports.map(createTransport),
+      cache: resultCache,
+      signal: controller.signal,
+      onEvent: event => send({ type: "event", id, event }),
+    });
+    send({ type: "report", id, report });
+  } catch (error) {
+    send({ type: "error", id, message: error instanceof Error ? error.message : "Unknown error" });
+  } finally {
+    running.delete(id);
+  }
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === "check") {
+    runCheck(request);
+  } else if (request.type === "cancel") {
+    running.get(request.id)?.abort();
+  }
+};
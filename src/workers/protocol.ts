@@ -0,0 +1,34 @@
+import { CheckEvent, LinkCheckReport } from "@/types/linkTypes";
+import { CheckSettings } from "@/services/settings";
+import { IgnoreRule } from "@/services/ignoreRules";
+import { CredentialProfile } from "@/services/credentials";
+import { TransportConfig } from "@/services/transports";
+
+// Messages between the page and the link checker worker. Everything is plain
+// data that survives structured cloning: transports travel as configs and
+// are built inside the worker. Each check has an id, so one worker can run
+// several pages at once.
+
+export interface WorkerCheckRequest {
+  type: "check";
+  id: string;
+  url: string;
+  settings: CheckSettings;
+  ignoreRules: IgnoreRule[];
+  credentials: CredentialProfile[];
+  forceRecheck: boolean;
+  transports: TransportConfig[];
+}
+
+// Stops a check; the worker answers with its partial report or an error
+export interface WorkerCancelRequest {
+  type: "cancel";
+  id: string;
+}
+
+export type WorkerRequest = WorkerCheckRequest | WorkerCancelRequest;
+
+export type WorkerResponse =
+  | { type: "event"; id: string; event: CheckEvent }
+  | { type: "report"; id: string; report: LinkCheckReport }
+  | { type: "error"; id: string; message: string };
@@ -1,16 +1,34 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Serves the link checker backend (server/api.ts) from the dev server,
+// loaded through Vite so the "@/" alias resolves as it does in the app.
+const linkCheckerApi = (): Plugin => ({
+  name: "link-checker-api",
+  configureServer(server) {
+    server.middlewares.use(async (req, res, next) => {
+      if (!req.url?.startsWith("/api/")) return next();
+
+      const { createApiMiddleware } = await server.ssrLoadModule("/server/api.ts");
+      createApiMiddleware()(req, res, next);
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // The app and /api share this origin; answering preflights for any site
+    // would let every page you visit use the link checker backend
+    cors: false,
   },
   plugins: [
     react(),
+    linkCheckerApi(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
@@ -19,4 +37,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // The link checker worker (src/workers) is an ES module
+  worker: {
+    format: "es",
+  },
 }));